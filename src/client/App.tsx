@@ -2,6 +2,7 @@ import React from 'react';
 import { Routes, Route } from 'react-router-dom';
 import HomePage from './pages/HomePage';
 import NetworkPage from './pages/NetworkPage';
+import HistoryPage from './pages/HistoryPage';
 
 /**
  * Main App component that handles routing and application structure
@@ -11,6 +12,8 @@ const App: React.FC = () => {
     <Routes>
       <Route path="/" element={<HomePage />} />
       <Route path="/network/:handle" element={<NetworkPage />} />
+      <Route path="/network/:handle/history" element={<HistoryPage />} />
+      <Route path="/network/import/:importId" element={<NetworkPage />} />
       {/* Add 404 route */}
       <Route
         path="*"
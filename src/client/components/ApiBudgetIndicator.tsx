@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import type { ApiBudget } from '@shared/types';
+
+// How often the budget is fetched again
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * Remaining Bluesky API request budget, shown in the navigation bar
+ */
+const ApiBudgetIndicator: React.FC = () => {
+  const [budget, setBudget] = useState<ApiBudget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBudget = async () => {
+      try {
+        const response = await fetch('/api/bsky/budget');
+        if (!response.ok) return;
+        const data: ApiBudget = await response.json();
+        if (!cancelled) setBudget(data);
+      } catch (err) {
+        console.error('Error loading API budget:', err);
+      }
+    };
+
+    loadBudget();
+    const interval = setInterval(loadBudget, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!budget) return null;
+
+  if (!budget.rateLimited) {
+    return (
+      <span className="text-sm text-gray-500" title="Requests are served offline">
+        API: {budget.source}
+      </span>
+    );
+  }
+
+  const share = budget.limit > 0 ? budget.remaining / budget.limit : 0;
+  const color = share > 0.5 ? 'bg-green-500' : share > 0.1 ? 'bg-yellow-500' : 'bg-red-500';
+  const quarantined = budget.accounts.filter(account => account.quarantined).length;
+  const title = [
+    `${budget.requestsPerMinute} requests/min`,
+    budget.resetAt ? `resets at ${new Date(budget.resetAt).toLocaleTimeString()}` : null,
+    `${budget.accounts.length} account${budget.accounts.length === 1 ? '' : 's'}`,
+    quarantined > 0 ? `${quarantined} quarantined` : null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <span className="flex items-center space-x-2 text-sm text-gray-600" title={title}>
+      <span className={`inline-block w-2 h-2 rounded-full ${color}`} />
+      <span>
+        API budget: {budget.remaining.toLocaleString()} / {budget.limit.toLocaleString()}
+      </span>
+    </span>
+  );
+};
+
+export default ApiBudgetIndicator;
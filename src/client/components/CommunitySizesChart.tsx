@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { SnapshotSummary } from '@shared/types';
+import * as d3 from 'd3';
+
+interface CommunitySizesChartProps {
+  snapshots: SnapshotSummary[];
+  // Snapshot marked on the chart, e.g. the one shown in the replay
+  currentIndex?: number;
+}
+
+interface CommunityTrack {
+  id: string;
+  label: string;
+}
+
+type SizeRow = Record<string, number>;
+
+const WIDTH = 800;
+const HEIGHT = 280;
+const MARGIN = { top: 16, right: 24, bottom: 32, left: 48 };
+
+/**
+ * Stacked area chart of community sizes across snapshots
+ * Communities are followed between snapshots by their track id
+ */
+const CommunitySizesChart: React.FC<CommunitySizesChartProps> = ({ snapshots, currentIndex }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Every community track with its most recent label, largest first
+  const tracks: CommunityTrack[] = useMemo(() => {
+    const labels = new Map<string, string>();
+    const peakSizes = new Map<string, number>();
+
+    snapshots.forEach(snapshot => {
+      snapshot.communities.forEach(community => {
+        const trackId = community.trackId || community.id;
+        labels.set(trackId, community.label || `Community ${community.id.split('-')[1]}`);
+        peakSizes.set(trackId, Math.max(peakSizes.get(trackId) || 0, community.size));
+      });
+    });
+
+    return Array.from(labels.entries())
+      .map(([id, label]) => ({ id, label }))
+      .sort((a, b) => peakSizes.get(b.id)! - peakSizes.get(a.id)!);
+  }, [snapshots]);
+
+  const color = useMemo(
+    () => d3.scaleOrdinal<string, string>(d3.schemeTableau10).domain(tracks.map(track => track.id)),
+    [tracks]
+  );
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (snapshots.length === 0 || tracks.length === 0) return;
+
+    const dates = snapshots.map(snapshot => new Date(snapshot.createdAt));
+    const rows: SizeRow[] = snapshots.map(snapshot => {
+      const row: SizeRow = {};
+      tracks.forEach(track => { row[track.id] = 0; });
+      snapshot.communities.forEach(community => {
+        row[community.trackId || community.id] = community.size;
+      });
+      return row;
+    });
+
+    const series = d3.stack<SizeRow>().keys(tracks.map(track => track.id))(rows);
+
+    const x = d3.scaleTime()
+      .domain(d3.extent(dates) as [Date, Date])
+      .range([MARGIN.left, WIDTH - MARGIN.right]);
+    const y = d3.scaleLinear()
+      .domain([0, d3.max(series, layer => d3.max(layer, point => point[1])) || 0])
+      .nice()
+      .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    const area = d3.area<d3.SeriesPoint<SizeRow>>()
+      .x((_, i) => x(dates[i]))
+      .y0(point => y(point[0]))
+      .y1(point => y(point[1]));
+
+    svg.append('g')
+      .selectAll('path')
+      .data(series)
+      .join('path')
+      .attr('fill', layer => color(layer.key))
+      .attr('fill-opacity', 0.85)
+      .attr('d', area)
+      .append('title')
+      .text(layer => tracks.find(track => track.id === layer.key)?.label || layer.key);
+
+    svg.append('g')
+      .attr('transform', `translate(0,${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(6));
+    svg.append('g')
+      .attr('transform', `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(5));
+
+    if (currentIndex !== undefined && dates[currentIndex]) {
+      svg.append('line')
+        .attr('x1', x(dates[currentIndex]))
+        .attr('x2', x(dates[currentIndex]))
+        .attr('y1', MARGIN.top)
+        .attr('y2', HEIGHT - MARGIN.bottom)
+        .attr('stroke', '#374151')
+        .attr('stroke-dasharray', '4 4');
+    }
+  }, [snapshots, tracks, color, currentIndex]);
+
+  return (
+    <div>
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" />
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600 mt-2">
+        {tracks.map(track => (
+          <span key={track.id} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: color(track.id) }} />
+            {track.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CommunitySizesChart;
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+import type { SnapshotSummary } from '@shared/types';
+import * as d3 from 'd3';
+
+interface CountsChartProps {
+  snapshots: SnapshotSummary[];
+  // Snapshot marked on the chart, e.g. the one shown in the replay
+  currentIndex?: number;
+}
+
+const WIDTH = 800;
+const HEIGHT = 280;
+const MARGIN = { top: 16, right: 24, bottom: 32, left: 48 };
+
+const SERIES: { key: keyof SnapshotSummary['stats']; label: string; color: string }[] = [
+  { key: 'followers', label: 'Followers', color: '#2563eb' },
+  { key: 'following', label: 'Following', color: '#16a34a' },
+  { key: 'mutuals', label: 'Mutuals', color: '#ef4444' }
+];
+
+/**
+ * Line chart of follower, following and mutual counts across snapshots
+ */
+const CountsChart: React.FC<CountsChartProps> = ({ snapshots, currentIndex }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (snapshots.length === 0) return;
+
+    const dates = snapshots.map(snapshot => new Date(snapshot.createdAt));
+    const maxCount = d3.max(snapshots, snapshot =>
+      Math.max(...SERIES.map(series => snapshot.stats[series.key]))
+    ) || 0;
+
+    const x = d3.scaleTime()
+      .domain(d3.extent(dates) as [Date, Date])
+      .range([MARGIN.left, WIDTH - MARGIN.right]);
+    const y = d3.scaleLinear()
+      .domain([0, maxCount])
+      .nice()
+      .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    svg.append('g')
+      .attr('transform', `translate(0,${HEIGHT - MARGIN.bottom})`)
+      .call(d3.axisBottom(x).ticks(6));
+    svg.append('g')
+      .attr('transform', `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(5));
+
+    SERIES.forEach(series => {
+      const line = d3.line<SnapshotSummary>()
+        .x((_, i) => x(dates[i]))
+        .y(snapshot => y(snapshot.stats[series.key]));
+
+      svg.append('path')
+        .datum(snapshots)
+        .attr('fill', 'none')
+        .attr('stroke', series.color)
+        .attr('stroke-width', 2)
+        .attr('d', line);
+
+      svg.append('g')
+        .selectAll('circle')
+        .data(snapshots)
+        .join('circle')
+        .attr('cx', (_, i) => x(dates[i]))
+        .attr('cy', snapshot => y(snapshot.stats[series.key]))
+        .attr('r', 3)
+        .attr('fill', series.color)
+        .append('title')
+        .text((snapshot, i) => `${series.label}: ${snapshot.stats[series.key]} (${dates[i].toLocaleString()})`);
+    });
+
+    if (currentIndex !== undefined && dates[currentIndex]) {
+      svg.append('line')
+        .attr('x1', x(dates[currentIndex]))
+        .attr('x2', x(dates[currentIndex]))
+        .attr('y1', MARGIN.top)
+        .attr('y2', HEIGHT - MARGIN.bottom)
+        .attr('stroke', '#6b7280')
+        .attr('stroke-dasharray', '4 4');
+    }
+  }, [snapshots, currentIndex]);
+
+  return (
+    <div>
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" />
+      <div className="flex gap-4 text-sm text-gray-600 mt-2">
+        {SERIES.map(series => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CountsChart;
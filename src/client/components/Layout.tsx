@@ -1,5 +1,6 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
+import ApiBudgetIndicator from './ApiBudgetIndicator';
 
 /**
  * Main layout component that provides consistent structure across all pages
@@ -13,7 +14,8 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
             <Link to="/" className="text-xl font-semibold text-primary-600">
               BlueSky Network Visualizer
             </Link>
-            <div className="space-x-4">
+            <div className="flex items-center space-x-4">
+              <ApiBudgetIndicator />
               <Link to="/" className="text-gray-600 hover:text-primary-600">
                 Home
               </Link>
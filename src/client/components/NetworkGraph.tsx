@@ -1,16 +1,27 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Canvas } from '@react-three/fiber';
+import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Html } from '@react-three/drei';
+import type { MeshBasicMaterial } from 'three';
 import type { NetworkNode, NetworkEdge } from '@shared/types';
 import * as d3 from 'd3';
 
 type Position2D = [number, number, number]; // [x, y, 0] for 2D
 
+const NODE_OPACITY = 0.9;
+// Share of the remaining opacity change applied per second while fading
+const FADE_SPEED = 4;
+
 interface NetworkGraphProps {
   data: {
     nodes: NetworkNode[];
     edges: NetworkEdge[];
   };
+  // Accounts connecting otherwise separate communities, drawn in a distinct colour
+  bridgeNodes?: string[];
+  // Nodes to show; the others fade out while keeping their place in the layout
+  visibleNodes?: Set<string>;
+  // Node drawn as the analysed user; defaults to the first node
+  mainNodeId?: string;
 }
 
 interface NodeInstance {
@@ -18,12 +29,15 @@ interface NodeInstance {
   size: number;
   isHighlighted: boolean;
   isMainUser: boolean;
+  isBridge: boolean;
+  isVisible: boolean;
 }
 
 interface EdgeInstance {
   start: Position2D;
   end: Position2D;
   isHighlighted: boolean;
+  isVisible: boolean;
 }
 
 // Extend D3's SimulationNodeDatum for our custom node type
@@ -79,22 +93,38 @@ const Node: React.FC<{
   size: number;
   isHighlighted: boolean;
   isMainUser: boolean;
+  isBridge: boolean;
+  isVisible: boolean;
   onHover: (hovered: boolean) => void;
-}> = React.memo(({ position, size, isHighlighted, isMainUser, onHover }) => {
-  const scale = isMainUser ? size * 3 : size;
+}> = React.memo(({ position, size, isHighlighted, isMainUser, isBridge, isVisible, onHover }) => {
+  const scale = isMainUser ? size * 3 : isBridge ? size * 1.5 : size;
+  const materialRef = useRef<MeshBasicMaterial>(null);
+  // Opacity is only set on mount; afterwards it is animated towards the target
+  const [initialOpacity] = useState(isVisible ? NODE_OPACITY : 0);
+
+  // Fade towards the target opacity
+  useFrame((_, delta) => {
+    const material = materialRef.current;
+    if (!material) return;
+
+    const target = isVisible ? NODE_OPACITY : 0;
+    material.opacity += (target - material.opacity) * Math.min(1, delta * FADE_SPEED);
+    material.visible = material.opacity > 0.01;
+  });
   
   return (
     <mesh
       position={position}
       scale={[scale, scale, 1]}
-      onPointerOver={() => onHover(true)}
+      onPointerOver={() => isVisible && onHover(true)}
       onPointerOut={() => onHover(false)}
     >
       <circleGeometry args={[1, 32]} />
       <meshBasicMaterial
-        color={isMainUser ? '#ef4444' : isHighlighted ? '#3b82f6' : '#4f46e5'}
+        ref={materialRef}
+        color={isMainUser ? '#ef4444' : isHighlighted ? '#3b82f6' : isBridge ? '#f59e0b' : '#4f46e5'}
         transparent
-        opacity={0.9}
+        opacity={initialOpacity}
       />
     </mesh>
   );
@@ -114,6 +144,8 @@ const Nodes: React.FC<{
           size={node.size}
           isHighlighted={node.isHighlighted}
           isMainUser={node.isMainUser}
+          isBridge={node.isBridge}
+          isVisible={node.isVisible}
           onHover={(hovered) => onHover(i, hovered)}
         />
       ))}
@@ -125,7 +157,7 @@ const Nodes: React.FC<{
 const Edges: React.FC<{ edges: EdgeInstance[] }> = React.memo(({ edges }) => {
   return (
     <group>
-      {edges.map((edge, i) => (
+      {edges.map((edge, i) => edge.isVisible && (
         <line key={i}>
           <bufferGeometry>
             <bufferAttribute
@@ -151,7 +183,7 @@ const Edges: React.FC<{ edges: EdgeInstance[] }> = React.memo(({ edges }) => {
  * Network graph visualization component
  * Renders nodes (users) and edges (connections) in 2D space with interactive features
  */
-const NetworkGraph: React.FC<NetworkGraphProps> = ({ data }) => {
+const NetworkGraph: React.FC<NetworkGraphProps> = ({ data, bridgeNodes, visibleNodes, mainNodeId }) => {
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [webGLAvailable, setWebGLAvailable] = useState(true);
   const [webGLError, setWebGLError] = useState<string | null>(null);
@@ -165,6 +197,8 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ data }) => {
     return map;
   }, [data.nodes]);
 
+  const bridgeSet = useMemo(() => new Set(bridgeNodes || []), [bridgeNodes]);
+
   // Filter out edges where either source or target node doesn't exist
   const validEdges = useMemo(() => {
     return data.edges.filter(edge => 
@@ -269,13 +303,15 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ data }) => {
       const connections = getConnectedNodes(node.id).size;
       const isHighlighted = hoveredNode === node.id || 
         (hoveredNode !== null && getConnectedNodes(hoveredNode).has(node.id));
-      const isMainUser = node.id === data.nodes[0].id; // Assuming first node is main user
+      const isMainUser = node.id === (mainNodeId ?? data.nodes[0].id);
 
       return {
         position,
         size: Math.max(1, Math.sqrt(connections) * 0.4),
         isHighlighted,
         isMainUser,
+        isBridge: bridgeSet.has(node.id),
+        isVisible: !visibleNodes || visibleNodes.has(node.id),
       };
     });
 
@@ -289,15 +325,17 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ data }) => {
         start,
         end,
         isHighlighted,
+        isVisible: !visibleNodes || (visibleNodes.has(edge.source) && visibleNodes.has(edge.target)),
       };
     });
 
     return { nodeInstances: nodes, edgeInstances: edges };
-  }, [data.nodes, validEdges, nodePositions, hoveredNode]);
+  }, [data.nodes, validEdges, nodePositions, hoveredNode, bridgeSet, visibleNodes, mainNodeId]);
 
   // Render node information tooltip
   const renderNodeTooltip = () => {
     if (!hoveredNode) return null;
+    if (visibleNodes && !visibleNodes.has(hoveredNode)) return null;
     
     const node = nodeMap.get(hoveredNode);
     if (!node) return null;
@@ -309,10 +347,20 @@ const NetworkGraph: React.FC<NetworkGraphProps> = ({ data }) => {
     return (
       <Html position={position}>
         <div className="bg-white/90 backdrop-blur-sm px-4 py-3 rounded-lg shadow-lg text-sm min-w-[200px] transform translate-x-4">
-          <div className="font-medium text-gray-900">{node.data.displayName || node.data.handle}</div>
-          <div className="text-gray-500">@{node.data.handle}</div>
+          <div className="flex items-center gap-3">
+            {node.data.avatar && (
+              <img src={node.data.avatar} alt="" className="w-8 h-8 rounded-full" />
+            )}
+            <div>
+              <div className="font-medium text-gray-900">{node.data.displayName || node.data.handle}</div>
+              <div className="text-gray-500">@{node.data.handle}</div>
+            </div>
+          </div>
           <div className="mt-2 text-gray-600">
             <div>Connections: {connectedNodes.size}</div>
+            {bridgeSet.has(hoveredNode) && (
+              <div className="text-amber-600">Bridges communities</div>
+            )}
           </div>
         </div>
       </Html>
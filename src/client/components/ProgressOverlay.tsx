@@ -1,4 +1,5 @@
 import React from 'react';
+import type { QueueEstimate } from '@shared/types';
 
 interface ProgressOverlayProps {
   stage: string;
@@ -10,14 +11,31 @@ interface ProgressOverlayProps {
     processedEdges: number;
     discoveredCommunities: number;
   };
+  queue?: QueueEstimate | null;
+  onCancel?: () => void;
+  cancelling?: boolean;
 }
 
+/**
+ * Rough duration for estimates, e.g. "~12 min"
+ */
+const formatEstimate = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `~${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `~${hours} h ${minutes % 60} min`;
+};
+
 const ProgressOverlay: React.FC<ProgressOverlayProps> = ({ 
   stage, 
   message, 
   current, 
   total,
-  details 
+  details,
+  queue,
+  onCancel,
+  cancelling = false
 }) => {
   const progress = (current / total) * 100;
 
@@ -29,6 +47,15 @@ const ProgressOverlay: React.FC<ProgressOverlayProps> = ({
           {stage.charAt(0).toUpperCase() + stage.slice(1)}
         </h3>
         <p className="text-gray-600 mb-4">{message}</p>
+
+        {/* Queue Position */}
+        {queue && queue.position !== null && (
+          <p className="text-sm text-gray-500 mb-4" title={`Estimated from ${queue.historySamples} completed analyses`}>
+            {queue.position > 0
+              ? `#${queue.position} in queue, ${formatEstimate(queue.etaMs)}`
+              : `${formatEstimate(queue.etaMs)} remaining`}
+          </p>
+        )}
         
         {/* Progress Bar */}
         <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
@@ -51,6 +78,16 @@ const ProgressOverlay: React.FC<ProgressOverlayProps> = ({
         <p className="text-sm text-gray-500 mt-2">
           {Math.round(progress)}% Complete
         </p>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            disabled={cancelling}
+            className="mt-4 px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {cancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,245 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Layout from '../components/Layout';
+import NetworkGraph from '../components/NetworkGraph';
+import CountsChart from '../components/CountsChart';
+import CommunitySizesChart from '../components/CommunitySizesChart';
+import {
+  NetworkAnalysisResult,
+  NetworkData,
+  NetworkNode,
+  SnapshotSummary
+} from '@shared/types';
+
+// Time each snapshot stays on screen during the replay
+const REPLAY_INTERVAL_MS = 2000;
+
+/**
+ * Network history page component
+ * Shows how a BlueSky handle's network changed across stored snapshots
+ */
+const HistoryPage: React.FC = () => {
+  const { handle } = useParams<{ handle: string }>();
+  const [snapshots, setSnapshots] = React.useState<SnapshotSummary[]>([]);
+  const [analysis, setAnalysis] = React.useState<NetworkAnalysisResult | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = React.useState(0);
+  const [playing, setPlaying] = React.useState(false);
+
+  // Load the snapshot timeline and the latest analysis, whose graph the replay is drawn on
+  React.useEffect(() => {
+    if (!handle) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      setPlaying(false);
+
+      try {
+        const [snapshotResponse, analysisResponse] = await Promise.all([
+          fetch(`/api/network/${handle}/snapshots?mutuals=true`),
+          fetch(`/api/network/analysis/${handle}`)
+        ]);
+
+        const snapshotData = await snapshotResponse.json();
+        if (!snapshotResponse.ok) {
+          throw new Error(snapshotData.error || 'Failed to fetch snapshots');
+        }
+
+        // A missing or still running analysis only means there is no graph to replay on
+        const analysisData = analysisResponse.ok ? await analysisResponse.json() : null;
+
+        setSnapshots(snapshotData.snapshots);
+        setAnalysis(analysisData?.stats ? analysisData : null);
+        setCurrentIndex(Math.max(0, snapshotData.snapshots.length - 1));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [handle]);
+
+  // Advance the replay one snapshot at a time, stopping at the latest
+  React.useEffect(() => {
+    if (!playing) return;
+
+    if (currentIndex >= snapshots.length - 1) {
+      setPlaying(false);
+      return;
+    }
+
+    const timer = window.setTimeout(() => setCurrentIndex(currentIndex + 1), REPLAY_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, currentIndex, snapshots.length]);
+
+  // Latest graph plus every past mutual, so accounts that left still have a place to fade out from
+  const replayGraph: NetworkData | null = React.useMemo(() => {
+    if (!analysis?.graph?.nodes?.length) return null;
+
+    const nodes: NetworkNode[] = [...analysis.graph.nodes];
+    const known = new Set(nodes.map(node => node.id));
+    snapshots.forEach(snapshot => {
+      snapshot.mutuals?.forEach(account => {
+        if (known.has(account.did)) return;
+        known.add(account.did);
+        nodes.push({
+          id: account.did,
+          type: 'user',
+          data: { did: account.did, handle: account.handle }
+        });
+      });
+    });
+
+    return { nodes, edges: analysis.graph.edges };
+  }, [analysis, snapshots]);
+
+  const current = snapshots[currentIndex];
+
+  // Mutuals of the snapshot being replayed, plus the analysed user
+  const visibleNodes = React.useMemo(() => {
+    const visible = new Set(current?.mutuals?.map(account => account.did) || []);
+    if (analysis) {
+      visible.add(analysis.userId);
+    }
+    return visible;
+  }, [current, analysis]);
+
+  // Mutuals gained and lost since the previous snapshot
+  const changes = React.useMemo(() => {
+    const previous = snapshots[currentIndex - 1];
+    if (!current?.mutuals || !previous?.mutuals) return null;
+
+    const before = new Set(previous.mutuals.map(account => account.did));
+    const after = new Set(current.mutuals.map(account => account.did));
+    return {
+      joined: current.mutuals.filter(account => !before.has(account.did)).length,
+      left: previous.mutuals.filter(account => !after.has(account.did)).length
+    };
+  }, [snapshots, current, currentIndex]);
+
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Network History for @{handle}
+            </h1>
+            {snapshots.length > 0 && (
+              <p className="text-gray-500 mt-1">
+                {snapshots.length} snapshots since {new Date(snapshots[0].createdAt).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+          <Link
+            to={`/network/${handle}`}
+            className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Latest Analysis
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading && (
+          <div className="w-full h-[600px] bg-white rounded-lg shadow-lg border border-gray-200 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {!loading && !error && snapshots.length === 0 && (
+          <div className="w-full h-[600px] bg-white rounded-lg shadow-lg border border-gray-200 flex items-center justify-center">
+            <p className="text-gray-500">No snapshots yet. Every completed analysis adds one.</p>
+          </div>
+        )}
+
+        {!loading && snapshots.length > 0 && (
+          <div className="space-y-6">
+            {snapshots.length < 2 && (
+              <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-lg">
+                Only one snapshot so far. Refresh the analysis later to see how the network changes.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Connections</h2>
+                <CountsChart snapshots={snapshots} currentIndex={currentIndex} />
+              </div>
+              <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Community Sizes</h2>
+                <CommunitySizesChart snapshots={snapshots} currentIndex={currentIndex} />
+              </div>
+            </div>
+
+            {/* Replay */}
+            <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden">
+              <div className="p-6 border-b border-gray-200 space-y-3">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-xl font-bold text-gray-900">Replay</h2>
+                  <button
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={() => {
+                      if (!playing && currentIndex >= snapshots.length - 1) {
+                        setCurrentIndex(0);
+                      }
+                      setPlaying(!playing);
+                    }}
+                    disabled={snapshots.length < 2 || !replayGraph}
+                  >
+                    {playing ? 'Pause' : 'Play'}
+                  </button>
+                </div>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={0}
+                  max={snapshots.length - 1}
+                  value={currentIndex}
+                  onChange={(e) => {
+                    setPlaying(false);
+                    setCurrentIndex(Number(e.target.value));
+                  }}
+                  disabled={snapshots.length < 2}
+                  aria-label="Snapshot"
+                />
+                {current && (
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span>{new Date(current.createdAt).toLocaleString()}</span>
+                    <span>
+                      {current.stats.mutuals} mutuals in {current.communities.length} communities
+                      {changes && ` (+${changes.joined} joined, -${changes.left} left)`}
+                    </span>
+                  </div>
+                )}
+              </div>
+              {replayGraph ? (
+                <div className="h-[600px]">
+                  <NetworkGraph
+                    data={replayGraph}
+                    bridgeNodes={analysis?.bridges?.bridgeNodes}
+                    visibleNodes={visibleNodes}
+                  />
+                </div>
+              ) : (
+                <div className="h-[600px] flex items-center justify-center">
+                  <p className="text-gray-500">No graph available to replay. Refresh the analysis to build one.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default HistoryPage;
@@ -1,6 +1,15 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout';
+import type { ExportFormat } from '@shared/types';
+
+// File extensions the import endpoint understands
+const IMPORT_FORMATS: Record<string, ExportFormat> = {
+  graphml: 'graphml',
+  gexf: 'gexf',
+  csv: 'csv',
+  json: 'json'
+};
 
 const LoadingSpinner = () => (
   <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -17,6 +26,9 @@ const HomePage: React.FC = () => {
   const [handle, setHandle] = React.useState('');
   const [error, setError] = React.useState('');
   const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [importFile, setImportFile] = React.useState<File | null>(null);
+  const [importError, setImportError] = React.useState('');
+  const [isImporting, setIsImporting] = React.useState(false);
 
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
@@ -56,6 +68,46 @@ const HomePage: React.FC = () => {
     }
   };
 
+  // Upload a network file for offline analysis
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) return;
+
+    const extension = importFile.name.split('.').pop()?.toLowerCase() || '';
+    const format = IMPORT_FORMATS[extension];
+    if (!format) {
+      setImportError('Choose a .graphml, .gexf, .csv or .json file');
+      return;
+    }
+
+    setImportError('');
+    setIsImporting(true);
+
+    try {
+      const content = await importFile.text();
+      const params = new URLSearchParams({ format, name: importFile.name });
+      const response = await fetch(`/api/network/imports?${params}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/plain'
+        },
+        body: content
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import network');
+      }
+
+      navigate(`/network/import/${data.importId}`);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // Render configuration instructions when there's an authentication error
   const renderAuthError = () => {
     if (!error.includes('authentication')) return null;
@@ -195,6 +247,38 @@ const HomePage: React.FC = () => {
             </div>
           )}
         </form>
+
+        {/* Import */}
+        <div className="max-w-md mx-auto mt-12 pt-8 border-t border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Analyze a Network File</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Upload a GraphML, GEXF or JSON network, or a CSV edge list, to analyze it without BlueSky credentials.
+          </p>
+          <form onSubmit={handleImport} className="flex flex-col gap-3">
+            <input
+              type="file"
+              accept=".graphml,.gexf,.csv,.json"
+              onChange={(e) => {
+                setImportFile(e.target.files?.[0] || null);
+                if (importError) setImportError('');
+              }}
+              className="text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+              disabled={isImporting}
+            />
+            <button
+              type="submit"
+              disabled={!importFile || isImporting}
+              className="w-full py-3 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Analyzing...' : 'Import Network'}
+            </button>
+            {importError && (
+              <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-4 text-left text-red-700 font-medium">
+                {importError}
+              </div>
+            )}
+          </form>
+        </div>
       </div>
     </Layout>
   );
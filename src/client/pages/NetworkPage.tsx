@@ -1,16 +1,37 @@
 import React from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import Layout from '../components/Layout';
 import NetworkGraph from '../components/NetworkGraph';
 import ProgressOverlay from '../components/ProgressOverlay';
-import { NetworkAnalysisResult, NetworkData, NetworkNode, NetworkEdge, AnalysisProgress } from '@shared/types';
+import {
+  NetworkAnalysisResult,
+  NetworkData,
+  AnalysisProgress,
+  Community,
+  CommunityAlgorithm,
+  ExportFormat,
+  ExportTable,
+  QueueEstimate
+} from '@shared/types';
+
+// How often the queue position of a running job is fetched again
+const QUEUE_POLL_INTERVAL_MS = 10000;
+
+// Downloads offered by the export menu
+const EXPORT_OPTIONS: { label: string; format: ExportFormat; table?: ExportTable }[] = [
+  { label: 'GraphML (Gephi, Cytoscape)', format: 'graphml' },
+  { label: 'GEXF (Gephi)', format: 'gexf' },
+  { label: 'CSV nodes', format: 'csv', table: 'nodes' },
+  { label: 'CSV edges', format: 'csv', table: 'edges' },
+  { label: 'JSON', format: 'json' }
+];
 
 /**
  * Network visualization page component
- * Displays network analysis for a given BlueSky handle
+ * Displays network analysis for a given BlueSky handle, or for a network imported from a file
  */
 const NetworkPage: React.FC = () => {
-  const { handle } = useParams<{ handle: string }>();
+  const { handle, importId } = useParams<{ handle: string; importId: string }>();
   const [networkData, setNetworkData] = React.useState<NetworkAnalysisResult | null>(null);
   const [loading, setLoading] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
@@ -18,98 +39,61 @@ const NetworkPage: React.FC = () => {
   const [progress, setProgress] = React.useState<AnalysisProgress | null>(null);
   const [pollInterval, setPollInterval] = React.useState<number>(2000);
   const [selectedCommunity, setSelectedCommunity] = React.useState<string | null>(null);
+  const [selectedLevel, setSelectedLevel] = React.useState<number | null>(null);
+  const [algorithm, setAlgorithm] = React.useState<CommunityAlgorithm>('louvain');
+  const [resolution, setResolution] = React.useState<number>(1);
+  const [exportOpen, setExportOpen] = React.useState(false);
+  const [cancelling, setCancelling] = React.useState(false);
+  const [queue, setQueue] = React.useState<QueueEstimate | null>(null);
   const pollTimeoutRef = React.useRef<number>();
 
-  // Convert analysis result to graph data
+  // Communities at the selected hierarchy level (defaults to the final, coarsest level)
+  const communities: Community[] = React.useMemo(() => {
+    if (!networkData) return [];
+    if (selectedLevel === null || !networkData.hierarchy?.[selectedLevel]) {
+      return networkData.communities;
+    }
+    return networkData.hierarchy[selectedLevel].communities;
+  }, [networkData, selectedLevel]);
+
+  // Persisted graph, narrowed to the selected community plus the analysed user
   const graphData: NetworkData | null = React.useMemo(() => {
-    if (!networkData) return null;
+    if (!networkData?.graph?.nodes?.length) return null;
+
+    const { nodes, edges } = networkData.graph;
+    const community = selectedCommunity
+      ? communities.find(c => c.id === selectedCommunity)
+      : undefined;
+    if (!community) {
+      return { nodes, edges };
+    }
 
-    const nodes = new Map<string, NetworkNode>();
-    const graphEdges: NetworkEdge[] = [];
-
-    // Add central user node
-    const centralNode: NetworkNode = {
-      id: networkData.userId,
-      type: 'user',
-      data: {
-        did: networkData.userId,
-        handle: networkData.handle,
-        displayName: networkData.handle
-      }
-    };
-    nodes.set(networkData.userId, centralNode);
-
-    // Process communities and their connections
-    networkData.communities.forEach(community => {
-      // Only process selected community or all communities if none selected
-      if (selectedCommunity && community.id !== selectedCommunity) return;
-
-      // First pass: create nodes
-      community.members.forEach(memberId => {
-        if (!nodes.has(memberId)) {
-          nodes.set(memberId, {
-            id: memberId,
-            type: 'user',
-            data: {
-              did: memberId,
-              handle: memberId,
-              displayName: memberId
-            }
-          });
-        }
-      });
-
-      // Second pass: create edges only between existing nodes
-      community.members.forEach(memberId => {
-        if (nodes.has(memberId)) {
-          // Add edge to central node
-          graphEdges.push({
-            source: networkData.userId,
-            target: memberId,
-            type: 'mutual'
-          });
-
-          // Add edges between community members, but limit to central nodes
-          if (community.centralNodes?.includes(memberId)) {
-            community.members.forEach(otherMemberId => {
-              if (memberId !== otherMemberId && 
-                  community.centralNodes?.includes(otherMemberId) &&
-                  nodes.has(otherMemberId)) {
-                graphEdges.push({
-                  source: memberId,
-                  target: otherMemberId,
-                  type: 'mutual'
-                });
-              }
-            });
-          }
-        }
-      });
-    });
+    const visible = new Set(community.members);
+    visible.add(networkData.userId);
 
     return {
-      nodes: Array.from(nodes.values()),
-      edges: graphEdges
+      nodes: nodes.filter(node => visible.has(node.id)),
+      edges: edges.filter(edge => visible.has(edge.source) && visible.has(edge.target))
     };
-  }, [networkData, selectedCommunity]);
+  }, [networkData, communities, selectedCommunity]);
 
   // Calculate network insights
   const networkInsights = React.useMemo(() => {
     if (!networkData) return null;
 
     const totalConnections = networkData.stats.mutuals;
-    const avgConnectionsPerCommunity = totalConnections / networkData.communities.length;
-    const largestCommunity = Math.max(...networkData.communities.map(c => c.size));
-    const avgDensity = networkData.communities.reduce((acc, c) => acc + (c.metrics?.density || 0), 0) / networkData.communities.length;
+    const avgConnectionsPerCommunity = totalConnections / communities.length;
+    const largestCommunity = Math.max(...communities.map(c => c.size));
+    const avgDensity = communities.reduce((acc, c) => acc + (c.metrics?.density || 0), 0) / communities.length;
 
     return {
       totalConnections,
       avgConnectionsPerCommunity,
       largestCommunity,
       avgDensity,
-      communitiesCount: networkData.communities.length
+      communitiesCount: communities.length
     };
-  }, [networkData]);
+  }, [networkData, communities]);
 
   // Function to start network analysis
   const startAnalysis = async (force = false) => {
@@ -118,21 +102,17 @@ const NetworkPage: React.FC = () => {
     setError(null);
     setProgress(null);
     setNetworkData(null); // Clear existing data
+    setSelectedLevel(null);
+    setSelectedCommunity(null);
 
     try {
-      // Clear all caches when forcing refresh
-      if (force) {
-        await fetch(`/api/network/clear-cache/${handle}`, {
-          method: 'POST'
-        });
-      }
-
+      // A forced refresh keeps the caches: the server only re-fetches what changed
       const response = await fetch(`/api/network/analyze/${handle}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ force })
+        body: JSON.stringify({ force, algorithm, resolution })
       });
       const data = await response.json();
 
@@ -154,6 +134,31 @@ const NetworkPage: React.FC = () => {
     }
   };
 
+  // Function to load the analysis of an imported network
+  const loadImport = async () => {
+    if (!importId) return;
+    setLoading(true);
+    setError(null);
+    setNetworkData(null);
+    setSelectedLevel(null);
+    setSelectedCommunity(null);
+
+    try {
+      const response = await fetch(`/api/network/imports/${importId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load imported network');
+      }
+
+      setNetworkData(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Function to poll job status with improved error handling
   const pollJobStatus = async () => {
     if (!handle) return;
@@ -171,7 +176,7 @@ const NetworkPage: React.FC = () => {
         setProgress(data.progress);
         
         // Continue polling if not complete
-        if (data.progress.stage !== 'completed' && data.progress.stage !== 'error') {
+        if (!['completed', 'cancelled', 'error'].includes(data.progress.stage)) {
           pollTimeoutRef.current = window.setTimeout(pollJobStatus, pollInterval);
           setPollInterval(prev => Math.min(prev * 1.2, 10000)); // Slightly gentler backoff
         }
@@ -203,6 +208,37 @@ const NetworkPage: React.FC = () => {
     }
   };
 
+  // Function to cancel the running analysis job
+  const cancelAnalysis = async () => {
+    if (!jobId) return;
+    setCancelling(true);
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      // The job finished before it could be cancelled; polling picks up its result
+      if (response.status === 409) {
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel analysis');
+      }
+
+      if (pollTimeoutRef.current) {
+        window.clearTimeout(pollTimeoutRef.current);
+      }
+      setLoading(false);
+      setJobId(null);
+      setProgress(null);
+      setError('Analysis cancelled');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while cancelling');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
   // Cleanup polling on unmount
   React.useEffect(() => {
     return () => {
@@ -212,10 +248,45 @@ const NetworkPage: React.FC = () => {
     };
   }, []);
 
-  // Start analysis on component mount
+  // Keep the queue position and estimated wait of the job current
   React.useEffect(() => {
-    startAnalysis();
-  }, [handle]);
+    if (!jobId) {
+      setQueue(null);
+      return;
+    }
+    let cancelled = false;
+
+    const loadQueue = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/queue`);
+        if (!response.ok) return;
+        const data: QueueEstimate = await response.json();
+        if (!cancelled) setQueue(data);
+      } catch (err) {
+        console.error('Error loading queue position:', err);
+      }
+    };
+
+    loadQueue();
+    const interval = setInterval(loadQueue, QUEUE_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [jobId]);
+
+  // Start analysis, or load the import, on component mount
+  React.useEffect(() => {
+    if (importId) {
+      loadImport();
+    } else {
+      startAnalysis();
+    }
+  }, [handle, importId]);
+
+  const exportUrl = importId
+    ? `/api/network/imports/${importId}/export`
+    : `/api/network/${handle}/export`;
 
   return (
     <Layout>
@@ -223,7 +294,7 @@ const NetworkPage: React.FC = () => {
         <div className="flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">
-              Network Analysis for @{handle}
+              {importId ? `Imported Network: ${networkData?.handle || ''}` : `Network Analysis for @${handle}`}
             </h1>
             {networkData && (
               <p className="text-gray-500 mt-1">
@@ -231,13 +302,85 @@ const NetworkPage: React.FC = () => {
               </p>
             )}
           </div>
-          <button
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            onClick={() => startAnalysis(true)}
-            disabled={loading}
-          >
-            {loading ? 'Analyzing...' : 'Refresh Analysis'}
-          </button>
+          <div className="flex items-center gap-3">
+            {!importId && (
+              <>
+                <select
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-gray-700 disabled:opacity-50"
+                  value={algorithm}
+                  onChange={(e) => setAlgorithm(e.target.value as CommunityAlgorithm)}
+                  disabled={loading}
+                  aria-label="Community detection algorithm"
+                >
+                  <option value="louvain">Louvain</option>
+                  <option value="leiden">Leiden</option>
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  Resolution
+                  <input
+                    type="number"
+                    className="w-20 border border-gray-300 rounded-lg px-2 py-2 text-gray-700 disabled:opacity-50"
+                    min={0.1}
+                    step={0.1}
+                    value={resolution}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (value > 0) setResolution(value);
+                    }}
+                    disabled={loading}
+                    title="Higher values give smaller communities, lower values larger ones"
+                  />
+                </label>
+              </>
+            )}
+            <div className="relative">
+              <button
+                className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => setExportOpen(!exportOpen)}
+                disabled={loading || !networkData?.graph}
+                aria-haspopup="menu"
+                aria-expanded={exportOpen}
+              >
+                Export
+              </button>
+              {exportOpen && (
+                <div
+                  className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1"
+                  role="menu"
+                >
+                  {EXPORT_OPTIONS.map(option => (
+                    <a
+                      key={option.label}
+                      href={`${exportUrl}?format=${option.format}${option.table ? `&table=${option.table}` : ''}`}
+                      className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      role="menuitem"
+                      download
+                      onClick={() => setExportOpen(false)}
+                    >
+                      {option.label}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+            {!importId && (
+              <>
+                <Link
+                  to={`/network/${handle}/history`}
+                  className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  History
+                </Link>
+                <button
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => startAnalysis(true)}
+                  disabled={loading}
+                >
+                  {loading ? 'Analyzing...' : 'Refresh Analysis'}
+                </button>
+              </>
+            )}
+          </div>
         </div>
 
         {error && (
@@ -253,6 +396,9 @@ const NetworkPage: React.FC = () => {
             current={progress.current}
             total={progress.total}
             details={progress.details}
+            queue={queue}
+            onCancel={jobId ? cancelAnalysis : undefined}
+            cancelling={cancelling}
           />
         )}
 
@@ -270,15 +416,27 @@ const NetworkPage: React.FC = () => {
           <div className="space-y-6">
             {/* Network Stats */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
-                <h3 className="text-sm font-medium text-gray-500 mb-1">Followers</h3>
-                <p className="text-3xl font-bold text-blue-600">{networkData.stats.followers}</p>
-                <div className="mt-2 text-sm text-gray-600">
-                  Following: {networkData.stats.following}
+              {importId ? (
+                <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">Nodes</h3>
+                  <p className="text-3xl font-bold text-blue-600">{networkData.graph?.nodes.length ?? 0}</p>
+                  <div className="mt-2 text-sm text-gray-600">
+                    Edges: {networkData.graph?.edges.length ?? 0}
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">Followers</h3>
+                  <p className="text-3xl font-bold text-blue-600">{networkData.stats.followers}</p>
+                  <div className="mt-2 text-sm text-gray-600">
+                    Following: {networkData.stats.following}
+                  </div>
+                </div>
+              )}
               <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
-                <h3 className="text-sm font-medium text-gray-500 mb-1">Mutual Connections</h3>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">
+                  {importId ? 'Mutual Edges' : 'Mutual Connections'}
+                </h3>
                 <p className="text-3xl font-bold text-blue-600">{networkData.stats.mutuals}</p>
                 <div className="mt-2 text-sm text-gray-600">
                   Across {networkInsights?.communitiesCount} communities
@@ -307,8 +465,30 @@ const NetworkPage: React.FC = () => {
               <div className="lg:col-span-1">
                 <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
                   <h2 className="text-xl font-bold text-gray-900 mb-4">Communities</h2>
+                  {networkData.hierarchy && networkData.hierarchy.length > 1 && (
+                    <div className="mb-4">
+                      <label className="flex justify-between text-sm font-medium text-gray-600 mb-1">
+                        <span>Fine</span>
+                        <span>
+                          Level {(selectedLevel ?? networkData.hierarchy.length - 1) + 1} of {networkData.hierarchy.length}
+                        </span>
+                        <span>Coarse</span>
+                      </label>
+                      <input
+                        type="range"
+                        className="w-full"
+                        min={0}
+                        max={networkData.hierarchy.length - 1}
+                        value={selectedLevel ?? networkData.hierarchy.length - 1}
+                        onChange={(e) => {
+                          setSelectedLevel(Number(e.target.value));
+                          setSelectedCommunity(null);
+                        }}
+                      />
+                    </div>
+                  )}
                   <div className="space-y-4">
-                    {networkData.communities.map((community) => (
+                    {communities.map((community) => (
                       <div 
                         key={community.id} 
                         className={`
@@ -323,9 +503,14 @@ const NetworkPage: React.FC = () => {
                         )}
                       >
                         <div className="flex justify-between items-start mb-2">
-                          <h3 className="text-lg font-semibold text-gray-900">
-                            Community {community.id.split('-')[1]}
-                          </h3>
+                          <div>
+                            <h3 className="text-lg font-semibold text-gray-900">
+                              {community.label || `Community ${community.id.split('-')[1]}`}
+                            </h3>
+                            {community.label && (
+                              <p className="text-xs text-gray-400">Community {community.id.split('-')[1]}</p>
+                            )}
+                          </div>
                           <span className="px-2 py-1 text-sm bg-gray-100 text-gray-600 rounded">
                             {community.size} members
                           </span>
@@ -339,6 +524,15 @@ const NetworkPage: React.FC = () => {
                             <span className="font-medium">Cohesion:</span>
                             <span>{((community.metrics?.cohesion ?? 0) * 100).toFixed(1)}%</span>
                           </div>
+                          {community.keywords && community.keywords.length > 0 && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                              {community.keywords.map(keyword => (
+                                <span key={keyword} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded">
+                                  {keyword}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                           {community.centralNodes && (
                             <div className="flex justify-between">
                               <span className="font-medium">Central Members:</span>
@@ -354,18 +548,34 @@ const NetworkPage: React.FC = () => {
 
               {/* Network Visualization */}
               <div className="lg:col-span-2">
-                {graphData && (
+                {graphData ? (
                   <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden">
                     <div className="h-[800px]">
-                      <NetworkGraph data={graphData} />
+                      <NetworkGraph
+                        data={graphData}
+                        bridgeNodes={networkData.bridges?.bridgeNodes}
+                        mainNodeId={networkData.userId}
+                      />
                     </div>
                   </div>
+                ) : (
+                  <div className="h-[800px] bg-white rounded-lg shadow-lg border border-gray-200 flex items-center justify-center">
+                    <p className="text-gray-500">Graph not available for this analysis. Refresh to rebuild it.</p>
+                  </div>
                 )}
               </div>
             </div>
 
             {/* Last Updated */}
             <div className="text-sm text-gray-500 text-right">
+              {networkData.algorithm && (
+                <span className="mr-4">
+                  Communities: {networkData.algorithm === 'leiden' ? 'Leiden' : 'Louvain'}
+                  {networkData.resolution !== undefined && `, resolution ${networkData.resolution}`}
+                  {networkData.seed !== undefined && `, seed ${networkData.seed}`}
+                  {networkData.modularity !== undefined && ` (modularity ${networkData.modularity.toFixed(3)})`}
+                </span>
+              )}
               Last updated: {new Date(networkData.lastUpdated).toLocaleString()}
             </div>
           </div>
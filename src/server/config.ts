@@ -7,6 +7,24 @@ export const FRONTEND_PORT = parseInt(process.env.FRONTEND_PORT || '5173', 10);
 // MongoDB connection URI
 export const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/bskyMaps2';
 
+// Whether the web server also runs analysis jobs; set to "false" when separate workers (npm run worker) run them
+export const EMBEDDED_WORKER = process.env.EMBEDDED_WORKER !== 'false';
+
+// Proxies in front of the server, so req.ip is the client's address rather than the proxy's
+// A hop count, true/false, or comma-separated addresses and subnets, as for Express's "trust proxy"
+export const TRUST_PROXY = parseTrustProxy(process.env.TRUST_PROXY);
+
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value) {
+    return 'loopback'; // e.g. the Vite dev server proxy
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  const hops = Number(value);
+  return Number.isInteger(hops) ? hops : value;
+}
+
 // Port configuration
 export const PORT_CONFIG = {
   maxRetries: 5,
@@ -13,7 +13,7 @@ import bskyRoutes from './routes/bsky';
 import userRoutes from './routes/users';
 
 // Import configuration and utilities
-import { SERVER_PORT, MONGODB_URI } from './config';
+import { SERVER_PORT, MONGODB_URI, EMBEDDED_WORKER, TRUST_PROXY } from './config';
 import { validateConfig } from './services/atproto/index';
 import { PortManager } from './utils/portManager';
 
@@ -27,6 +27,9 @@ dotenv.config();
 // Create Express application
 const app = express();
 
+// Client addresses behind proxies, for per-client refresh quotas
+app.set('trust proxy', TRUST_PROXY);
+
 // Middleware
 app.use(cors());
 app.use(bodyParser.json());
@@ -47,9 +50,14 @@ mongoose.connect(MONGODB_URI)
 // Validate AT Protocol configuration
 validateConfig();
 
-// Register job handlers
-console.log('[Server] Registering network analyzer handler with job processor');
-networkAnalyzer.registerHandler(jobProcessor);
+// Register job handlers, unless jobs are left to separate worker processes
+if (EMBEDDED_WORKER) {
+  console.log('[Server] Registering network analyzer handler with job processor');
+  networkAnalyzer.registerHandler(jobProcessor);
+  jobProcessor.start();
+} else {
+  console.log('[Server] Jobs are run by separate worker processes');
+}
 
 // Port management
 const portManager = new PortManager(SERVER_PORT, 'backend');
@@ -66,6 +74,7 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGINT', async () => {
       console.log('Shutting down server...');
+      await jobProcessor.stop();
       await portManager.releasePort();
       server.close(() => {
         mongoose.connection.close()
@@ -4,7 +4,7 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-// Align with Bluesky's rate limits: 100 requests per 5 minutes
+// Requests each IP may make to the job API; Bluesky requests are budgeted separately by the AT Protocol rate limiter
 const {
   RATE_LIMIT_WINDOW_MS = 300000, // 5 minutes (300,000ms)
   RATE_LIMIT_MAX_REQUESTS = 95, // Slightly under the 100 limit to provide safety margin
@@ -12,8 +12,7 @@ const {
 
 /**
  * Rate limiter configuration
- * Limits requests based on IP address to comply with Bluesky's rate limits
- * Uses 95 requests per 5 minutes to provide a safety margin
+ * Limits requests to this server based on IP address
  */
 const rateLimiter = new RateLimiterMemory({
   points: Number(RATE_LIMIT_MAX_REQUESTS),
@@ -58,7 +57,7 @@ export const rateLimiterMiddleware = async (
     res.set('Retry-After', String(retryAfter));
     res.status(429).json({
       error: 'Too Many Requests',
-      message: 'Rate limit exceeded. Please respect Bluesky\'s rate limits of 100 requests per 5 minutes.',
+      message: `Rate limit exceeded. Please wait ${retryAfter} seconds before trying again.`,
       retryAfter,
     });
   }
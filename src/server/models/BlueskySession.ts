@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IBlueskySession {
+  identifier: string;
+  service: string;
+  did: string;
+  data: string;
+  updatedAt: Date;
+}
+
+export interface BlueskySessionDocument extends Document, IBlueskySession {
+  _id: Schema.Types.ObjectId;
+}
+
+/**
+ * Bluesky Session Schema
+ * Login session of the service account, stored encrypted so restarts can resume it
+ */
+const blueskySessionSchema = new Schema<BlueskySessionDocument>({
+  identifier: {
+    type: String,
+    required: true
+  },
+  service: {
+    type: String,
+    required: true
+  },
+  did: {
+    type: String,
+    required: true
+  },
+  // Encrypted session tokens: iv, auth tag and ciphertext
+  data: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// One session per account and service
+blueskySessionSchema.index({ identifier: 1, service: 1 }, { unique: true });
+
+const BlueskySession = mongoose.model<BlueskySessionDocument>('BlueskySession', blueskySessionSchema);
+
+export default BlueskySession;
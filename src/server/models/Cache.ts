@@ -1,5 +1,26 @@
 import mongoose from 'mongoose';
-import { UserProfile, ConnectionData, NetworkAnalysisResult } from '../../shared/types';
+import {
+  UserProfile,
+  ConnectionData,
+  NetworkAnalysisResult,
+  Community,
+  CommunityLevel,
+  CommunityAlgorithm,
+  NodeCentrality,
+  BridgeAnalysis,
+  NetworkData
+} from '../../shared/types';
+
+// Inter-community edges as stored: the edge itself is kept once, in graph.edges
+export interface StoredInterCommunityEdge {
+  edge: number; // index into graph.edges
+  sourceCommunity: string;
+  targetCommunity: string;
+}
+
+export interface StoredBridgeAnalysis extends Omit<BridgeAnalysis, 'interCommunityEdges'> {
+  interCommunityEdges: StoredInterCommunityEdge[];
+}
 
 /**
  * Generic Cache Schema
@@ -101,6 +122,7 @@ const connectionCacheSchema = new mongoose.Schema({
       handle: String,
       displayName: String,
       avatar: String,
+      description: String,
       followersCount: Number,
       followingCount: Number,
       postsCount: Number,
@@ -127,6 +149,22 @@ connectionCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 connectionCacheSchema.index({ userId: 1, lastUpdated: -1 });
 connectionCacheSchema.index({ userId: 1, 'connectionData.type': 1 });
 
+/**
+ * Community definition shared by the final result and the hierarchy levels
+ */
+const communityDefinition = {
+  id: String,
+  size: Number,
+  members: [String],
+  centralNodes: [String],
+  label: String,
+  keywords: [String],
+  metrics: {
+    density: Number,
+    cohesion: Number
+  }
+};
+
 /**
  * Network Analysis Result Schema
  */
@@ -146,16 +184,66 @@ const networkAnalysisSchema = new mongoose.Schema({
     following: Number,
     mutuals: Number,
   },
-  communities: [{
+  communities: [communityDefinition],
+  modularity: Number,
+  hierarchy: [{
+    level: Number,
+    modularity: Number,
+    communities: [communityDefinition]
+  }],
+  algorithm: {
+    type: String,
+    enum: ['louvain', 'leiden'],
+    default: 'louvain',
+  },
+  resolution: Number,
+  seed: Number,
+  centrality: [{
     id: String,
-    size: Number,
-    members: [String],
-    centralNodes: [String],
-    metrics: {
-      density: Number,
-      cohesion: Number
-    }
+    handle: String,
+    pageRank: Number,
+    betweenness: Number,
+    closeness: Number,
+    eigenvector: Number
   }],
+  bridges: {
+    nodes: [{
+      id: String,
+      community: String,
+      participation: Number,
+      constraint: Number,
+      interCommunityLinks: Number
+    }],
+    bridgeNodes: [String],
+    interCommunityEdges: [{
+      edge: Number,
+      sourceCommunity: String,
+      targetCommunity: String
+    }]
+  },
+  graph: {
+    nodes: [{
+      id: String,
+      type: {
+        type: String,
+        enum: ['user'],
+      },
+      data: {
+        did: String,
+        handle: String,
+        displayName: String,
+        avatar: String,
+      },
+    }],
+    edges: [{
+      source: String,
+      target: String,
+      type: {
+        type: String,
+        enum: ['follows', 'mutual'],
+      },
+    }],
+  },
   lastUpdated: {
     type: Date,
     required: true,
@@ -212,16 +300,15 @@ export interface NetworkAnalysisDocument extends mongoose.Document {
     following: number;
     mutuals: number;
   };
-  communities: Array<{
-    id: string;
-    size: number;
-    members: string[];
-    centralNodes?: string[];
-    metrics?: {
-      density: number;
-      cohesion: number;
-    };
-  }>;
+  communities: Community[];
+  modularity?: number;
+  hierarchy?: CommunityLevel[];
+  algorithm?: CommunityAlgorithm;
+  resolution?: number;
+  seed?: number;
+  centrality?: NodeCentrality[];
+  bridges?: StoredBridgeAnalysis;
+  graph?: NetworkData;
   lastUpdated: Date;
   expiresAt: Date;
 }
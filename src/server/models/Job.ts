@@ -1,4 +1,4 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, UpdateQuery } from 'mongoose';
 import { AnalysisProgress } from '../../shared/types';
 
 export enum JobType {
@@ -10,16 +10,46 @@ export enum JobStatus {
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
   FAILED = 'failed',
-  RATE_LIMITED = 'rate_limited'
+  RATE_LIMITED = 'rate_limited',
+  CANCELLED = 'cancelled'
 }
 
 export const QUEUE_LIMITS = {
-  DAILY_REFRESH_LIMIT: 5,
+  DAILY_REFRESH_LIMIT: 5, // forced refreshes per handle
+  DAILY_CLIENT_REFRESH_LIMIT: 20, // forced refreshes per client IP, over all handles
   PRIORITY_HANDLE: 'gui.do',
+  PRIORITY_HANDLE_BOOST: 10, // added to the priority of the priority handle's jobs
   MAX_CONCURRENT_JOBS: 10,
   MAX_ATTEMPTS: 3
 };
 
+// A worker holds a job for LEASE_DURATION after each heartbeat; jobs whose
+// lease has lapsed are taken over by the next worker looking for work
+export const JOB_LEASE = {
+  LEASE_DURATION: 5 * 60 * 1000,
+  HEARTBEAT_INTERVAL: 60 * 1000
+};
+
+// How far the crawl of a follower or following list got
+export interface ConnectionListCheckpoint {
+  cursor: string; // cursor of the next page to fetch
+  fetched: number; // entries already stored in the connection cache
+}
+
+// What a completed job took, for estimating how long queued jobs will take
+export interface JobMetrics {
+  durationMs: number;
+  connections: number; // followers plus following of the analysed account
+  requests: number; // API requests the job made
+}
+
+// Progress an interrupted analysis resumes from
+export interface JobCheckpoint {
+  follower?: ConnectionListCheckpoint;
+  following?: ConnectionListCheckpoint;
+  completedMutuals?: string[]; // mutuals whose follow lists are cached
+}
+
 interface IJob {
   type: JobType;
   userId: string;
@@ -34,6 +64,11 @@ interface IJob {
   nextAttempt?: Date;
   refreshCount: number;
   estimatedWaitTime?: number;
+  checkpoint?: JobCheckpoint;
+  metrics?: JobMetrics;
+  workerId?: string;
+  heartbeatAt?: Date;
+  leaseExpiresAt?: Date;
   startedAt?: Date;
   completedAt?: Date;
   createdAt: Date;
@@ -44,8 +79,12 @@ export interface JobDocument extends Document, IJob {
   _id: Schema.Types.ObjectId;
   updateProgress: (progress: AnalysisProgress) => Promise<void>;
   incrementRefreshCount: () => Promise<void>;
-  complete: () => Promise<void>;
-  fail: (error: string) => Promise<void>;
+  saveListCheckpoint: (type: 'follower' | 'following', checkpoint: ConnectionListCheckpoint | null) => Promise<void>;
+  addCompletedMutuals: (dids: string[]) => Promise<void>;
+  complete: () => Promise<boolean>;
+  fail: (error: string) => Promise<boolean>;
+  scheduleRetry: (nextAttempt: Date) => Promise<boolean>;
+  cancel: () => Promise<void>;
 }
 
 const jobSchema = new Schema<JobDocument>({
@@ -146,6 +185,18 @@ const jobSchema = new Schema<JobDocument>({
     default: 0
   },
   estimatedWaitTime: Number,
+  checkpoint: Schema.Types.Mixed,
+  metrics: {
+    type: {
+      durationMs: Number,
+      connections: Number,
+      requests: Number
+    },
+    default: undefined
+  },
+  workerId: String,
+  heartbeatAt: Date,
+  leaseExpiresAt: Date,
   startedAt: Date,
   completedAt: Date,
   createdAt: {
@@ -161,6 +212,12 @@ const jobSchema = new Schema<JobDocument>({
 // Add index for finding jobs by handle and status
 jobSchema.index({ handle: 1, status: 1 });
 
+// Add index for claiming the next job
+jobSchema.index({ status: 1, priority: -1, createdAt: 1 });
+
+// Add index for reading the durations of recently completed jobs
+jobSchema.index({ status: 1, completedAt: -1 });
+
 // Add index for finding jobs by userId and date
 jobSchema.index({ userId: 1, createdAt: -1 });
 
@@ -204,30 +261,130 @@ jobSchema.methods.incrementRefreshCount = async function() {
   console.log('- New count:', this.refreshCount);
 };
 
-// Add method to complete job
+// Add method to record how far a follow list crawl got, or that it finished
+// Checkpoints are written with atomic updates rather than save(), so they can be
+// recorded while the job saves its progress without running into parallel saves
+jobSchema.methods.saveListCheckpoint = async function(
+  type: 'follower' | 'following',
+  checkpoint: ConnectionListCheckpoint | null
+) {
+  const path = `checkpoint.${type}`;
+  await this.updateOne(checkpoint ? { $set: { [path]: checkpoint } } : { $unset: { [path]: 1 } });
+};
+
+// Add method to record mutuals whose follow lists have been fetched
+jobSchema.methods.addCompletedMutuals = async function(dids: string[]) {
+  if (dids.length === 0) {
+    return;
+  }
+  await this.updateOne({ $addToSet: { 'checkpoint.completedMutuals': { $each: dids } } });
+};
+
+// Update a running job only while the worker that claimed it still holds its lease
+// A job cancelled or taken over by another worker no longer matches and is left alone
+async function updateUnderLease(
+  jobId: JobDocument['_id'],
+  workerId: string | undefined,
+  update: UpdateQuery<JobDocument>
+): Promise<boolean> {
+  const result = await Job.updateOne(
+    { _id: jobId, workerId, status: JobStatus.IN_PROGRESS },
+    update
+  );
+  if (result.matchedCount === 0) {
+    console.log('- Lease lost, job left to its current owner');
+    return false;
+  }
+  return true;
+}
+
+// Add method to complete job, storing its result and metrics
 jobSchema.methods.complete = async function() {
   console.log(`[Job] Completing job ${this._id}`);
   console.log('- Current status:', this.status);
-  
+
+  const completedAt = new Date();
+  // The checkpoint is only needed to resume the job, so it goes with completion
+  const completed = await updateUnderLease(this._id, this.workerId, {
+    $set: {
+      status: JobStatus.COMPLETED,
+      completedAt,
+      data: this.data,
+      ...(this.metrics ? { metrics: this.metrics } : {})
+    },
+    $unset: { checkpoint: 1 }
+  });
+  if (!completed) {
+    return false;
+  }
+
   this.status = JobStatus.COMPLETED;
-  this.completedAt = new Date();
-  await this.save();
-  
+  this.completedAt = completedAt;
+  this.checkpoint = undefined;
   console.log('- Job completed successfully');
+  return true;
 };
 
-// Add method to fail job
+// Add method to fail job for good
 jobSchema.methods.fail = async function(error: string) {
   console.log(`[Job] Failing job ${this._id}`);
   console.log('- Current status:', this.status);
   console.log('- Error:', error);
-  
+
+  const completedAt = new Date();
+  const failed = await updateUnderLease(this._id, this.workerId, {
+    $set: { status: JobStatus.FAILED, error, completedAt }
+  });
+  if (!failed) {
+    return false;
+  }
+
   this.status = JobStatus.FAILED;
   this.error = error;
+  this.completedAt = completedAt;
+  console.log('- Job marked as failed');
+  return true;
+};
+
+// Add method to put a failed attempt back in the queue, to be claimed again after nextAttempt
+// Its checkpoint is kept, so the retry resumes where the attempt stopped
+jobSchema.methods.scheduleRetry = async function(nextAttempt: Date) {
+  console.log(`[Job] Scheduling retry for job ${this._id}`);
+  console.log('- Attempts so far:', this.attempts);
+
+  const scheduled = await updateUnderLease(this._id, this.workerId, {
+    $set: { status: JobStatus.PENDING, nextAttempt },
+    $unset: { startedAt: 1, workerId: 1, heartbeatAt: 1, leaseExpiresAt: 1 }
+  });
+  if (!scheduled) {
+    return false;
+  }
+
+  this.status = JobStatus.PENDING;
+  this.nextAttempt = nextAttempt;
+  this.startedAt = undefined;
+  this.workerId = undefined;
+  this.heartbeatAt = undefined;
+  this.leaseExpiresAt = undefined;
+  return true;
+};
+
+// Add method to cancel job
+jobSchema.methods.cancel = async function() {
+  console.log(`[Job] Cancelling job ${this._id}`);
+  console.log('- Current status:', this.status);
+
+  this.status = JobStatus.CANCELLED;
   this.completedAt = new Date();
+  this.progress = {
+    ...this.progress,
+    stage: 'cancelled',
+    message: 'Analysis cancelled'
+  };
+  this.markModified('progress');
   await this.save();
-  
-  console.log('- Job marked as failed');
+
+  console.log('- Job cancelled');
 };
 
 const Job = mongoose.model<JobDocument>('Job', jobSchema);
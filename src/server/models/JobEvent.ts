@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AnalysisProgress } from '../../shared/types';
+import { JobStatus } from './Job';
+
+// Oldest events are dropped once the collection is full
+const JOB_EVENT_COLLECTION_SIZE = 5 * 1024 * 1024;
+const JOB_EVENT_MAX_COUNT = 10000;
+
+interface IJobEvent {
+  type: 'jobProgress' | 'jobStatus';
+  jobId: string;
+  progress?: AnalysisProgress;
+  status?: JobStatus;
+  createdAt: Date;
+}
+
+export interface JobEventDocument extends Document, IJobEvent {
+  _id: Schema.Types.ObjectId;
+}
+
+/**
+ * Job Event Schema
+ * Progress and status updates published by workers, tailed by web processes for their SSE clients
+ * Capped, so it can be tailed like a log without growing forever
+ */
+const jobEventSchema = new Schema<JobEventDocument>({
+  type: {
+    type: String,
+    enum: ['jobProgress', 'jobStatus'],
+    required: true
+  },
+  jobId: {
+    type: String,
+    required: true
+  },
+  progress: Schema.Types.Mixed,
+  status: {
+    type: String,
+    enum: Object.values(JobStatus)
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  capped: { size: JOB_EVENT_COLLECTION_SIZE, max: JOB_EVENT_MAX_COUNT }
+});
+
+const JobEvent = mongoose.model<JobEventDocument>('JobEvent', jobEventSchema);
+
+export default JobEvent;
@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ExportFormat, NetworkAnalysisResult } from '../../shared/types';
+import { CACHE_DURATIONS, createCacheExpiration } from './Cache';
+
+interface INetworkImport {
+  name: string;
+  format: ExportFormat;
+  analysis: NetworkAnalysisResult;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface NetworkImportDocument extends Document, INetworkImport {
+  _id: Schema.Types.ObjectId;
+}
+
+/**
+ * Network Import Schema
+ * Analysis of a network uploaded as a file rather than fetched from Bluesky
+ */
+const networkImportSchema = new Schema<NetworkImportDocument>({
+  name: {
+    type: String,
+    required: true
+  },
+  format: {
+    type: String,
+    required: true,
+    enum: ['graphml', 'gexf', 'csv', 'json']
+  },
+  analysis: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    default: () => createCacheExpiration(CACHE_DURATIONS.MEDIUM_TERM)
+  }
+});
+
+// Imports are kept for a week
+networkImportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const NetworkImport = mongoose.model<NetworkImportDocument>('NetworkImport', networkImportSchema);
+
+export default NetworkImport;
@@ -0,0 +1,150 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CommunityAlgorithm, SnapshotAccount } from '../../shared/types';
+
+export type SnapshotList = 'followers' | 'following' | 'mutuals';
+
+// Accounts per chunk, so even the largest account lists stay far below MongoDB's 16MB document limit
+export const SNAPSHOT_CHUNK_SIZE = 5000;
+
+interface INetworkSnapshot {
+  userId: string;
+  handle: string;
+  stats: {
+    followers: number;
+    following: number;
+    mutuals: number;
+  };
+  // Account lists of snapshots stored before they moved to chunks
+  followers?: SnapshotAccount[];
+  following?: SnapshotAccount[];
+  mutuals?: SnapshotAccount[];
+  communities: {
+    id: string;
+    label?: string;
+    members: string[];
+  }[];
+  modularity?: number;
+  algorithm?: CommunityAlgorithm;
+  resolution?: number;
+  seed?: number;
+  createdAt: Date;
+}
+
+export interface NetworkSnapshotDocument extends Document, INetworkSnapshot {
+  _id: Schema.Types.ObjectId;
+}
+
+interface INetworkSnapshotChunk {
+  snapshotId: Schema.Types.ObjectId;
+  list: SnapshotList;
+  index: number;
+  accounts: SnapshotAccount[];
+}
+
+export interface NetworkSnapshotChunkDocument extends Document, INetworkSnapshotChunk {
+  _id: Schema.Types.ObjectId;
+}
+
+const accountSchema = new Schema<SnapshotAccount>({
+  did: String,
+  handle: String
+}, { _id: false });
+
+/**
+ * Network Snapshot Schema
+ * One immutable record per completed analysis, so a network can be compared over time
+ * Its account lists are stored as chunks alongside it
+ */
+const networkSnapshotSchema = new Schema<NetworkSnapshotDocument>({
+  userId: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  handle: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  stats: {
+    followers: Number,
+    following: Number,
+    mutuals: Number
+  },
+  followers: { type: [accountSchema], default: undefined },
+  following: { type: [accountSchema], default: undefined },
+  mutuals: { type: [accountSchema], default: undefined },
+  communities: [{
+    _id: false,
+    id: String,
+    label: String,
+    members: [String]
+  }],
+  modularity: Number,
+  algorithm: {
+    type: String,
+    enum: ['louvain', 'leiden']
+  },
+  resolution: Number,
+  seed: Number,
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+});
+
+// Add index for listing snapshots of a handle in time order
+networkSnapshotSchema.index({ handle: 1, createdAt: -1 });
+
+// Add index for listing snapshots of a DID in time order
+networkSnapshotSchema.index({ userId: 1, createdAt: -1 });
+
+// Snapshots are written once and never changed
+networkSnapshotSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Network snapshots are immutable'));
+  }
+  next();
+});
+
+networkSnapshotSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function(next) {
+  next(new Error('Network snapshots are immutable'));
+});
+
+/**
+ * Network Snapshot Chunk Schema
+ * A slice of one account list of a snapshot, written once with the snapshot
+ */
+const networkSnapshotChunkSchema = new Schema<NetworkSnapshotChunkDocument>({
+  snapshotId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    immutable: true
+  },
+  list: {
+    type: String,
+    enum: ['followers', 'following', 'mutuals'],
+    required: true,
+    immutable: true
+  },
+  index: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  accounts: [accountSchema]
+});
+
+// Add index for reading a list of a snapshot in order
+networkSnapshotChunkSchema.index({ snapshotId: 1, list: 1, index: 1 }, { unique: true });
+
+networkSnapshotChunkSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function(next) {
+  next(new Error('Network snapshots are immutable'));
+});
+
+const NetworkSnapshot = mongoose.model<NetworkSnapshotDocument>('NetworkSnapshot', networkSnapshotSchema);
+
+export const NetworkSnapshotChunk = mongoose.model<NetworkSnapshotChunkDocument>('NetworkSnapshotChunk', networkSnapshotChunkSchema);
+
+export default NetworkSnapshot;
@@ -1,18 +1,34 @@
 import { Router, Request, Response } from 'express';
-import { requestQueue } from '../utils/requestQueue';
+import { requestQueue, RequestPriority } from '../utils/requestQueue';
 import atprotoService from '../services/atproto/index';
 import { BskyFollower, BskyProfile } from '../services/atproto/interfaces';
 
 const router = Router();
 
+/**
+ * Get the remaining Bluesky API request budget
+ */
+router.get('/budget', (_req: Request, res: Response) => {
+  try {
+    res.json(atprotoService.getBudget());
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred';
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
 /**
  * Get user profile
  */
 router.get('/profile/:handle', async (req: Request, res: Response) => {
   try {
     const handle = req.params.handle;
+    // A user is waiting, so this goes ahead of analysis jobs' crawling
     const profile = await requestQueue.queueRequest(() => 
-      atprotoService.getProfile(handle)
+      atprotoService.getProfile(handle),
+      { priority: RequestPriority.INTERACTIVE }
     ) as BskyProfile;
     res.json(profile);
   } catch (error: unknown) {
@@ -23,6 +39,25 @@ router.get('/profile/:handle', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Resolve a handle to its DID
+ */
+router.get('/resolve/:handle', async (req: Request, res: Response) => {
+  try {
+    const handle = req.params.handle;
+    const did = await requestQueue.queueRequest(() => 
+      atprotoService.resolveHandle(handle),
+      { priority: RequestPriority.INTERACTIVE }
+    ) as string;
+    res.json({ handle, did });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred';
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
 /**
  * Get user followers
  */
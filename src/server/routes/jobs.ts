@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { rateLimiterMiddleware } from '../middleware/rateLimiter';
-import Job, { JobType } from '../models/Job';
+import Job, { JobType, JobStatus } from '../models/Job';
 import jobProcessor from '../services/jobProcessor';
 import sseHandler from '../services/sseHandler';
+import queueEstimator from '../services/queueEstimator';
 
 const router = Router();
 
@@ -54,6 +56,57 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/jobs/:id/queue
+ * Get a job's position in the queue and its estimated wait
+ */
+router.get('/:id/queue', async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job id' });
+    }
+
+    const job = await Job.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(await queueEstimator.estimate(job));
+  } catch (error) {
+    console.error('Error estimating job queue position:', error);
+    res.status(500).json({ 
+      error: 'Failed to estimate queue position',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a pending or running job
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job id' });
+    }
+
+    const job = await jobProcessor.cancelJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (job.status !== JobStatus.CANCELLED) {
+      return res.status(409).json({ error: `Job already ${job.status}` });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({ 
+      error: 'Failed to cancel job',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/jobs/user/:userId
  * Get all jobs for a user
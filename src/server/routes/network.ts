@@ -1,12 +1,40 @@
-import networkAnalyzer from '../services/network';
+import mongoose from 'mongoose';
+import networkAnalyzer, { snapshotService, networkImporter } from '../services/network';
 import jobProcessor from '../services/jobProcessor';
-import Job, { JobStatus, JobType } from '../models/Job';
-import { Router, Request, Response } from 'express';
+import Job, { JobDocument, JobStatus, JobType, QUEUE_LIMITS } from '../models/Job';
+import express, { Router, Request, Response } from 'express';
 import progressTracker from '../services/network/progressTracker';
+import graphExporter from '../services/graphExporter';
+import refreshQuota from '../services/refreshQuota';
+import { ImportError } from '../services/graphImporter';
 import { UserProfileCache, ConnectionCache, NetworkAnalysis } from '../models/Cache';
+import {
+  CommunityAlgorithm,
+  CentralityMetric,
+  NetworkAnalysisResult,
+  ExportFormat,
+  ExportTable
+} from '../../shared/types';
 
 const router = Router();
 
+// Community detection algorithms accepted by the analyze endpoint
+const COMMUNITY_ALGORITHMS: CommunityAlgorithm[] = ['louvain', 'leiden'];
+
+// Centrality metrics the ranking endpoint can sort by
+const CENTRALITY_METRICS: CentralityMetric[] = ['pageRank', 'betweenness', 'closeness', 'eigenvector'];
+const DEFAULT_CENTRALITY_LIMIT = 20;
+
+// Snapshots returned by the history endpoint when no limit is given
+const DEFAULT_SNAPSHOT_LIMIT = 50;
+
+// Formats the export endpoint can write; CSV writes one table per request
+const EXPORT_FORMATS: ExportFormat[] = ['graphml', 'gexf', 'csv', 'json'];
+const EXPORT_TABLES: ExportTable[] = ['nodes', 'edges'];
+
+// Largest file the import endpoint accepts
+const MAX_IMPORT_SIZE = '20mb';
+
 /**
  * Clear Cache Endpoint
  * Matches client's expected API route: /api/network/clear-cache/:handle
@@ -42,15 +70,32 @@ router.post('/clear-cache/:handle', async (req: Request, res: Response) => {
 router.post('/analyze/:handle', async (req: Request, res: Response) => {
   try {
     const { handle } = req.params;
-    const { force = false } = req.body;
+    const { force = false, algorithm = 'louvain', resolution, seed } = req.body;
 
-    console.log(`[NetworkRoute] Received job creation request for handle: ${handle}, force: ${force}`);
+    console.log(`[NetworkRoute] Received job creation request for handle: ${handle}, force: ${force}, algorithm: ${algorithm}`);
 
     if (!handle) {
       console.error('[NetworkRoute] Handle is required');
       return res.status(400).json({ error: 'Handle is required' });
     }
 
+    if (!COMMUNITY_ALGORITHMS.includes(algorithm)) {
+      console.error(`[NetworkRoute] Invalid algorithm: ${algorithm}`);
+      return res.status(400).json({
+        error: `Invalid algorithm. Expected one of: ${COMMUNITY_ALGORITHMS.join(', ')}`
+      });
+    }
+
+    if (resolution !== undefined && !(typeof resolution === 'number' && Number.isFinite(resolution) && resolution > 0)) {
+      console.error(`[NetworkRoute] Invalid resolution: ${resolution}`);
+      return res.status(400).json({ error: 'Resolution must be a positive number' });
+    }
+
+    if (seed !== undefined && !(Number.isInteger(seed) && seed >= 0 && seed < 4294967296)) {
+      console.error(`[NetworkRoute] Invalid seed: ${seed}`);
+      return res.status(400).json({ error: 'Seed must be an unsigned 32-bit integer' });
+    }
+
     // Check for existing job
     const existingJob = await jobProcessor.getCurrentJob(handle);
     if (existingJob && !force) {
@@ -61,27 +106,73 @@ router.post('/analyze/:handle', async (req: Request, res: Response) => {
       });
     }
 
-    // Reset any existing jobs for this handle to allow reprocessing
-    if (existingJob) {
-      console.log(`[NetworkRoute] Resetting existing job for reprocessing`);
-      existingJob.status = JobStatus.PENDING;
-      existingJob.attempts = 0;
-      existingJob.progress = progressTracker.createInitialProgress();
-      await existingJob.save();
+    // Forced refreshes count against the daily quotas of the handle and the client
+    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+    if (force) {
+      const quota = await refreshQuota.consume(handle, clientIp);
+      if (!quota.allowed) {
+        const resetTime = quota.resetAt ? new Date(quota.resetAt) : null;
+        if (resetTime) {
+          res.set('Retry-After', String(Math.max(1, Math.ceil((resetTime.getTime() - Date.now()) / 1000))));
+        }
+        return res.status(429).json({
+          error: 'Daily refresh limit reached',
+          message: quota.scope === 'handle'
+            ? `${handle} can be refreshed ${quota.limit} times a day.${resetTime ? ` Try again after ${resetTime.toLocaleString()}.` : ''}`
+            : `You can refresh ${quota.limit} networks a day.${resetTime ? ` Try again after ${resetTime.toLocaleString()}.` : ''}`,
+          limit: quota.limit,
+          resetAt: quota.resetAt
+        });
+      }
     }
 
-    // Create a new job if none exists
-    const job = existingJob || await jobProcessor.createJob(
-      JobType.NETWORK_ANALYSIS,
-      'system', // placeholder userId
-      handle,
-      { force },
-      force ? 1 : 0 // Higher priority for force updates
-    );
+    // Force updates go first, and the priority handle ahead of everyone
+    const isPriorityHandle = handle.toLowerCase() === QUEUE_LIMITS.PRIORITY_HANDLE;
+    const priority = (force ? 1 : 0) + (isPriorityHandle ? QUEUE_LIMITS.PRIORITY_HANDLE_BOOST : 0);
+
+    let job: JobDocument;
+    try {
+      // Reset any existing jobs for this handle to allow reprocessing
+      if (existingJob) {
+        console.log(`[NetworkRoute] Resetting existing job for reprocessing`);
+        existingJob.status = JobStatus.PENDING;
+        existingJob.attempts = 0;
+        existingJob.data = { ...existingJob.data, force, algorithm, resolution, seed };
+        existingJob.markModified('data');
+        existingJob.progress = progressTracker.createInitialProgress();
+        existingJob.priority = Math.max(existingJob.priority, priority);
+        await existingJob.save();
+      }
+
+      // Create a new job if none exists
+      job = existingJob || await jobProcessor.createJob(
+        JobType.NETWORK_ANALYSIS,
+        'system', // placeholder userId
+        handle,
+        { force, algorithm, resolution, seed },
+        priority
+      );
+    } catch (error) {
+      // A refresh that never got queued does not count
+      if (force) {
+        await refreshQuota.refund(handle, clientIp).catch(refundError => {
+          console.error(`[NetworkRoute] Failed to refund refresh for ${handle}:`, refundError);
+        });
+      }
+      throw error;
+    }
+
+    if (force) {
+      await job.incrementRefreshCount();
+    }
 
     console.log(`[NetworkRoute] Job ${job._id} ready for processing`);
     console.log(`- Status: ${job.status}`);
     console.log(`- Force: ${force}`);
+    console.log(`- Priority: ${job.priority}`);
+    console.log(`- Algorithm: ${algorithm}`);
+    console.log(`- Resolution: ${resolution ?? 1}`);
+    console.log(`- Seed: ${seed ?? 'random'}`);
     console.log(`- Handle: ${handle}`);
 
     // Return response
@@ -100,6 +191,25 @@ router.post('/analyze/:handle', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Attach the persisted graph to a completed job result
+ * Results of jobs that finished before graphs were stored are filled in from the analysis cache
+ */
+async function withGraph(result: NetworkAnalysisResult): Promise<NetworkAnalysisResult> {
+  if (!result?.userId || result.graph?.nodes?.length) {
+    return result;
+  }
+
+  const analysis = await NetworkAnalysis.findOne({ userId: result.userId }, { graph: 1 });
+  if (!analysis?.graph?.nodes?.length) {
+    console.log(`[NetworkRoute] No persisted graph found for ${result.handle}`);
+    return result;
+  }
+
+  console.log(`[NetworkRoute] Attached persisted graph for ${result.handle}`);
+  return { ...result, graph: analysis.graph };
+}
+
 /**
  * Job Status Endpoint
  * Matches client's expected API route: /api/network/analysis/:handle
@@ -131,7 +241,7 @@ router.get('/analysis/:handle', async (req: Request, res: Response) => {
 
       if (lastCompletedJob) {
         console.log(`[NetworkRoute] Returning completed job data`);
-        return res.json(lastCompletedJob.data);
+        return res.json(await withGraph(lastCompletedJob.data));
       }
 
       console.log(`[NetworkRoute] No job found for handle`);
@@ -141,7 +251,7 @@ router.get('/analysis/:handle', async (req: Request, res: Response) => {
     // If job is complete, return full network data
     if (job.status === JobStatus.COMPLETED && job.data) {
       console.log(`[NetworkRoute] Job is completed, returning job data`);
-      return res.json(job.data);
+      return res.json(await withGraph(job.data));
     }
 
     // Get the latest progress, either from job document or create initial progress
@@ -181,4 +291,340 @@ router.get('/analysis/:handle', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Centrality Ranking Endpoint
+ * Returns the nodes of the latest analysis ranked by a centrality metric:
+ * /api/network/centrality/:handle?metric=betweenness&limit=20
+ */
+router.get('/centrality/:handle', async (req: Request, res: Response) => {
+  try {
+    const { handle } = req.params;
+    const metric = (req.query.metric as string) || 'pageRank';
+    const limit = req.query.limit !== undefined
+      ? Number(req.query.limit)
+      : DEFAULT_CENTRALITY_LIMIT;
+
+    console.log(`[NetworkRoute] Received centrality request for handle: ${handle}, metric: ${metric}, limit: ${limit}`);
+
+    if (!CENTRALITY_METRICS.includes(metric as CentralityMetric)) {
+      console.error(`[NetworkRoute] Invalid centrality metric: ${metric}`);
+      return res.status(400).json({
+        error: `Invalid metric. Expected one of: ${CENTRALITY_METRICS.join(', ')}`
+      });
+    }
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      console.error(`[NetworkRoute] Invalid limit: ${req.query.limit}`);
+      return res.status(400).json({ error: 'Limit must be a positive integer' });
+    }
+
+    const analysis = await NetworkAnalysis.findOne({ handle }).sort({ lastUpdated: -1 });
+    if (!analysis?.centrality?.length) {
+      console.log(`[NetworkRoute] No centrality data found for ${handle}`);
+      return res.status(404).json({ error: 'No centrality data found for this handle' });
+    }
+
+    const key = metric as CentralityMetric;
+    const nodes = analysis.centrality
+      .map(({ id, handle, pageRank, betweenness, closeness, eigenvector }) => ({
+        id, handle, pageRank, betweenness, closeness, eigenvector
+      }))
+      .sort((a, b) => b[key] - a[key])
+      .slice(0, limit)
+      .map((node, index) => ({ rank: index + 1, ...node }));
+
+    console.log(`[NetworkRoute] Returning ${nodes.length} of ${analysis.centrality.length} nodes ranked by ${metric}`);
+
+    res.json({
+      handle,
+      metric,
+      total: analysis.centrality.length,
+      lastUpdated: analysis.lastUpdated.toISOString(),
+      nodes
+    });
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while fetching centrality';
+    
+    console.error(`[NetworkRoute] Centrality retrieval error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Network Export Endpoint
+ * Downloads the latest analysis for use in Gephi, Cytoscape or spreadsheets:
+ * /api/network/:handle/export?format=graphml|gexf|csv|json&table=nodes|edges
+ */
+router.get('/:handle/export', async (req: Request, res: Response) => {
+  try {
+    const { handle } = req.params;
+    const format = (req.query.format as string) || 'graphml';
+    const table = (req.query.table as string) || 'nodes';
+
+    console.log(`[NetworkRoute] Received export request for handle: ${handle}, format: ${format}, table: ${table}`);
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(`[NetworkRoute] Invalid export format: ${format}`);
+      return res.status(400).json({
+        error: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    if (!EXPORT_TABLES.includes(table as ExportTable)) {
+      console.error(`[NetworkRoute] Invalid export table: ${table}`);
+      return res.status(400).json({
+        error: `Invalid table. Expected one of: ${EXPORT_TABLES.join(', ')}`
+      });
+    }
+
+    const analysis = await NetworkAnalysis.findOne({ handle }).sort({ lastUpdated: -1 });
+    if (!analysis?.graph?.nodes?.length) {
+      console.log(`[NetworkRoute] No graph found to export for ${handle}`);
+      return res.status(404).json({ error: 'No analysed network found for this handle' });
+    }
+
+    const file = graphExporter.exportAnalysis(analysis.toObject(), format as ExportFormat, table as ExportTable);
+
+    res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while exporting the network';
+    
+    console.error(`[NetworkRoute] Export error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Network Import Endpoint
+ * Analyses a network uploaded as a text body, e.g. a GraphML file or a CSV edge list:
+ * POST /api/network/imports?format=graphml|gexf|csv|json&name=file.graphml&algorithm=louvain&resolution=1
+ */
+router.post('/imports', express.text({ type: '*/*', limit: MAX_IMPORT_SIZE }), async (req: Request, res: Response) => {
+  try {
+    const format = req.query.format as string;
+    const name = (req.query.name as string) || 'Imported network';
+    const algorithm = (req.query.algorithm as string) || 'louvain';
+    const resolution = req.query.resolution !== undefined ? Number(req.query.resolution) : undefined;
+
+    console.log(`[NetworkRoute] Received import request: ${name}, format: ${format}, algorithm: ${algorithm}`);
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(`[NetworkRoute] Invalid import format: ${format}`);
+      return res.status(400).json({
+        error: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    if (!COMMUNITY_ALGORITHMS.includes(algorithm as CommunityAlgorithm)) {
+      console.error(`[NetworkRoute] Invalid algorithm: ${algorithm}`);
+      return res.status(400).json({
+        error: `Invalid algorithm. Expected one of: ${COMMUNITY_ALGORITHMS.join(', ')}`
+      });
+    }
+
+    if (resolution !== undefined && !(Number.isFinite(resolution) && resolution > 0)) {
+      console.error(`[NetworkRoute] Invalid resolution: ${req.query.resolution}`);
+      return res.status(400).json({ error: 'Resolution must be a positive number' });
+    }
+
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      console.error('[NetworkRoute] Import body is empty or not text');
+      return res.status(400).json({ error: 'Send the file contents as a text/plain request body' });
+    }
+
+    let networkImport;
+    try {
+      networkImport = await networkImporter.importNetwork(req.body, format as ExportFormat, name, {
+        algorithm: algorithm as CommunityAlgorithm,
+        resolution
+      });
+    } catch (error: unknown) {
+      // Anything wrong with the file itself is the client's to fix
+      if (error instanceof ImportError) {
+        console.error(`[NetworkRoute] Invalid import file: ${error.message}`);
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    res.status(201).json({
+      importId: networkImport._id.toString(),
+      nodes: networkImport.analysis.graph?.nodes.length || 0,
+      edges: networkImport.analysis.graph?.edges.length || 0,
+      communities: networkImport.analysis.communities.length
+    });
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while importing the network';
+    
+    console.error(`[NetworkRoute] Import error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Imported Network Endpoint
+ * Returns the analysis of an uploaded network: /api/network/imports/:importId
+ */
+router.get('/imports/:importId', async (req: Request, res: Response) => {
+  try {
+    const { importId } = req.params;
+    console.log(`[NetworkRoute] Received import request for id: ${importId}`);
+
+    if (!mongoose.isValidObjectId(importId)) {
+      console.error(`[NetworkRoute] Invalid import id: ${importId}`);
+      return res.status(400).json({ error: `Invalid import id: ${importId}` });
+    }
+
+    const analysis = await networkImporter.getImport(importId);
+    if (!analysis) {
+      console.log(`[NetworkRoute] Import ${importId} not found`);
+      return res.status(404).json({ error: 'Import not found or expired' });
+    }
+
+    res.json(analysis);
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while fetching the import';
+    
+    console.error(`[NetworkRoute] Import retrieval error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Imported Network Export Endpoint
+ * Same formats as the handle export: /api/network/imports/:importId/export?format=gexf
+ */
+router.get('/imports/:importId/export', async (req: Request, res: Response) => {
+  try {
+    const { importId } = req.params;
+    const format = (req.query.format as string) || 'graphml';
+    const table = (req.query.table as string) || 'nodes';
+
+    console.log(`[NetworkRoute] Received import export request for id: ${importId}, format: ${format}, table: ${table}`);
+
+    if (!mongoose.isValidObjectId(importId)) {
+      console.error(`[NetworkRoute] Invalid import id: ${importId}`);
+      return res.status(400).json({ error: `Invalid import id: ${importId}` });
+    }
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(`[NetworkRoute] Invalid export format: ${format}`);
+      return res.status(400).json({
+        error: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    if (!EXPORT_TABLES.includes(table as ExportTable)) {
+      console.error(`[NetworkRoute] Invalid export table: ${table}`);
+      return res.status(400).json({
+        error: `Invalid table. Expected one of: ${EXPORT_TABLES.join(', ')}`
+      });
+    }
+
+    const analysis = await networkImporter.getImport(importId);
+    if (!analysis) {
+      console.log(`[NetworkRoute] Import ${importId} not found`);
+      return res.status(404).json({ error: 'Import not found or expired' });
+    }
+
+    const file = graphExporter.exportAnalysis(analysis, format as ExportFormat, table as ExportTable);
+
+    res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while exporting the import';
+    
+    console.error(`[NetworkRoute] Import export error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Network History Endpoint
+ * Lists the snapshots of completed analyses, oldest first:
+ * /api/network/:handle/snapshots?limit=50&mutuals=true
+ */
+router.get('/:handle/snapshots', async (req: Request, res: Response) => {
+  try {
+    const { handle } = req.params;
+    const limit = req.query.limit !== undefined
+      ? Number(req.query.limit)
+      : DEFAULT_SNAPSHOT_LIMIT;
+    const includeMutuals = req.query.mutuals === 'true';
+
+    console.log(`[NetworkRoute] Received snapshot list request for handle: ${handle}, limit: ${limit}, mutuals: ${includeMutuals}`);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      console.error(`[NetworkRoute] Invalid limit: ${req.query.limit}`);
+      return res.status(400).json({ error: 'Limit must be a positive integer' });
+    }
+
+    const snapshots = await snapshotService.listSnapshots(handle, limit, includeMutuals);
+    res.json({ handle, snapshots });
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while fetching snapshots';
+    
+    console.error(`[NetworkRoute] Snapshot list error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+/**
+ * Network Diff Endpoint
+ * Compares two snapshots, by default the two most recent:
+ * /api/network/:handle/diff?from=<snapshotId>&to=<snapshotId>
+ */
+router.get('/:handle/diff', async (req: Request, res: Response) => {
+  try {
+    const { handle } = req.params;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    console.log(`[NetworkRoute] Received diff request for handle: ${handle}, from: ${from || 'previous'}, to: ${to || 'latest'}`);
+
+    const invalidId = [from, to].find(id => id !== undefined && !mongoose.isValidObjectId(id));
+    if (invalidId !== undefined) {
+      console.error(`[NetworkRoute] Invalid snapshot id: ${invalidId}`);
+      return res.status(400).json({ error: `Invalid snapshot id: ${invalidId}` });
+    }
+
+    const diff = await snapshotService.diffSnapshots(handle, from, to);
+    if (!diff) {
+      console.log(`[NetworkRoute] Snapshots not found for ${handle}`);
+      return res.status(404).json({ error: 'Two snapshots are needed to compare this network' });
+    }
+
+    res.json(diff);
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'An unknown error occurred while comparing snapshots';
+    
+    console.error(`[NetworkRoute] Snapshot diff error: ${errorMessage}`);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
 export default router;
@@ -0,0 +1,439 @@
+import { BskyAgent } from '@atproto/api';
+import { RateLimitBudget } from '../../../shared/types';
+import { AccountCredentials, BskyProfile, BskyFollower, FollowPage } from './interfaces';
+import { BSKY_SERVICE, FOLLOW_PAGE_SIZE, MAX_PROFILES_PER_REQUEST, RATE_LIMIT } from './config';
+import { RateLimiter, delay } from './rateLimiter';
+import sessionStore from './sessionStore';
+import { requestQueue, RequestCancelledError } from '../../utils/requestQueue';
+
+// Retries of a call after a rate limit or a failed request
+const MAX_RETRIES = 3;
+
+// Access tokens are refreshed when they have less than this left
+const REFRESH_MARGIN_MS = 5 * 60 * 1000; // 5 minutes
+
+// Shape of the XRPC errors thrown by the agent
+interface XrpcErrorLike {
+  status: number;
+  error?: string;
+  headers?: Record<string, string>;
+}
+
+function isXrpcError(error: unknown): error is XrpcErrorLike {
+  return typeof error === 'object' && error !== null && typeof (error as XrpcErrorLike).status === 'number';
+}
+
+/**
+ * Expiry time in ms of a JWT, or undefined if it cannot be read
+ */
+function getTokenExpiry(jwt: string): number | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wait in ms requested by a 429 response, from Retry-After or the ratelimit-reset timestamp
+ */
+function getRetryAfter(error: XrpcErrorLike): number | undefined {
+  const retryAfter = error.headers?.['retry-after'];
+  if (retryAfter && !isNaN(parseInt(retryAfter, 10))) {
+    return parseInt(retryAfter, 10) * 1000;
+  }
+
+  const reset = error.headers?.['ratelimit-reset'];
+  if (reset && !isNaN(parseInt(reset, 10))) {
+    return Math.max(0, parseInt(reset, 10) * 1000 - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert any value to a number, defaulting to 0 if invalid
+ */
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const num = parseInt(value, 10);
+    return isNaN(num) ? 0 : num;
+  }
+  return 0;
+}
+
+/**
+ * Map a full profile view to our profile shape
+ */
+function toProfile(view: any): BskyProfile {
+  return {
+    did: view.did,
+    handle: view.handle,
+    displayName: view.displayName || view.handle,
+    avatar: view.avatar || '',
+    description: view.description || '',
+    followersCount: toNumber(view.followersCount),
+    followingCount: toNumber(view.followsCount),
+    followsCount: toNumber(view.followsCount),
+    postsCount: toNumber(view.postsCount),
+    indexedAt: view.indexedAt || new Date().toISOString()
+  };
+}
+
+/**
+ * Map a profile view from a follow list to our follower shape
+ * Follow list views carry no counts, so those are usually 0
+ */
+function toFollower(view: any): BskyFollower {
+  return {
+    did: view.did,
+    handle: view.handle,
+    displayName: view.displayName || view.handle,
+    avatar: view.avatar || '',
+    description: view.description || '',
+    followersCount: toNumber(view.followersCount),
+    followingCount: toNumber(view.followsCount),
+    followsCount: toNumber(view.followsCount),
+    postsCount: toNumber(view.postsCount)
+  };
+}
+
+/**
+ * Error thrown when an account cannot log in
+ */
+export class AccountAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountAuthError';
+  }
+}
+
+/**
+ * AtprotoClient
+ * AT Protocol API access for one account, authenticated with an app password
+ * Typed agent calls are layered with request budgeting, Retry-After backoff and session renewal
+ */
+export class AtprotoClient {
+  private agent: BskyAgent;
+  private rateLimiter = new RateLimiter(RATE_LIMIT);
+  private isInitialized = false;
+  private loginPromise: Promise<void> | null = null;
+  // 429 responses received by this account
+  rateLimitHits = 0;
+
+  constructor(
+    private readonly credentials: AccountCredentials,
+    private readonly service: string = BSKY_SERVICE
+  ) {
+    this.agent = new BskyAgent({
+      service,
+      // Store new and refreshed sessions; once the refresh token is gone we must log in again
+      persistSession: (event, session) => {
+        if ((event === 'create' || event === 'update') && session) {
+          void sessionStore.save(this.identifier, this.service, session);
+        } else if (event === 'expired' || event === 'create-failed') {
+          console.log(`[ATProto] Session ${event} for ${this.identifier}, a new login is needed`);
+          this.isInitialized = false;
+        }
+      }
+    });
+  }
+
+  /**
+   * Account this client makes requests as
+   */
+  get identifier(): string {
+    return this.credentials.identifier;
+  }
+
+  /**
+   * Requests this account can still make in the current rate limit window
+   */
+  getRemaining(): number {
+    return this.rateLimiter.getRemaining();
+  }
+
+  /**
+   * Rate limit budget of this account, as last reported by the server
+   */
+  getBudget(): RateLimitBudget {
+    return this.rateLimiter.getBudget();
+  }
+
+  /**
+   * Initialize AT Protocol authentication, resuming the stored session when there is one
+   * Concurrent callers share a single login
+   */
+  async initialize(): Promise<void> {
+    if (!this.loginPromise) {
+      this.loginPromise = this.resumeOrLogin().finally(() => {
+        this.loginPromise = null;
+      });
+    }
+    return this.loginPromise;
+  }
+
+  private async resumeOrLogin(): Promise<void> {
+    const stored = await sessionStore.load(this.identifier, this.service);
+
+    if (stored) {
+      try {
+        console.log(`[ATProto] Resuming stored session for ${stored.handle}`);
+        await this.rateLimiter.checkRateLimit();
+        await this.agent.resumeSession(stored);
+
+        console.log('[ATProto] Session resumed');
+        console.log(`- DID: ${stored.did}`);
+        this.isInitialized = true;
+        return;
+      } catch (error) {
+        console.error('[ATProto] Could not resume stored session:', error);
+        await sessionStore.clear(this.identifier, this.service);
+      }
+    }
+
+    await this.login();
+  }
+
+  private async login(): Promise<void> {
+    console.log('[ATProto] Initializing authentication');
+
+    const { identifier, password } = this.credentials;
+    if (!identifier || !password) {
+      console.error('[ATProto] Missing Bluesky credentials');
+      throw new AccountAuthError('Bluesky handle or app password not configured in .env');
+    }
+
+    try {
+      console.log(`[ATProto] Attempting to login as ${identifier}`);
+      await this.rateLimiter.checkRateLimit();
+      const response = await this.agent.login({ identifier, password });
+
+      console.log('[ATProto] Login successful');
+      console.log(`- DID: ${response.data.did}`);
+      console.log(`- Handle: ${response.data.handle}`);
+      console.log(`- Email: ${response.data.email}`);
+
+      this.isInitialized = true;
+      this.rateLimiter.resetErrorCount();
+    } catch (error) {
+      console.error(`[ATProto] Authentication failed for ${identifier}:`, error);
+      this.isInitialized = false;
+      throw new AccountAuthError(`Failed to authenticate with Bluesky as ${identifier}`);
+    }
+  }
+
+  /**
+   * Check if the agent is authenticated
+   */
+  isAuthenticated(): boolean {
+    const hasSession = this.agent.session !== undefined;
+    console.log(`[ATProto] Authentication check - Session exists: ${hasSession}`);
+    return this.isInitialized && hasSession;
+  }
+
+  /**
+   * Renew the session, using the refresh token while it is still valid
+   */
+  private async renewSession(): Promise<void> {
+    if (this.agent.session) {
+      try {
+        console.log('[ATProto] Refreshing session');
+        await this.agent.sessionManager.refreshSession();
+        if (this.agent.session) {
+          console.log('[ATProto] Session refreshed');
+          return;
+        }
+      } catch (error) {
+        console.error('[ATProto] Session refresh failed:', error);
+      }
+    }
+
+    await sessionStore.clear(this.identifier, this.service);
+    this.isInitialized = false;
+    await this.initialize();
+  }
+
+  /**
+   * Whether the access token expires within the refresh margin
+   */
+  private isSessionExpiring(): boolean {
+    const expiry = this.agent.session ? getTokenExpiry(this.agent.session.accessJwt) : undefined;
+    return expiry !== undefined && expiry - Date.now() < REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * Make an API call within the request budget
+   * Rate limits wait out the server's Retry-After; expiring sessions are refreshed first,
+   * and a call rejected for an expired token, e.g. mid-way through paging a follow list, is retried once.
+   * The queued request's abort signal stops the call, including its waits, once its job is cancelled
+   * @param label Description for logs
+   * @param request Agent call to make, given the signal to pass on
+   */
+  private async call<T extends { headers: Record<string, string> }>(
+    label: string,
+    request: (signal?: AbortSignal) => Promise<T>,
+    retries = MAX_RETRIES
+  ): Promise<T> {
+    const signal = requestQueue.getSignal();
+    this.throwIfAborted(label, signal);
+
+    if (!this.isInitialized || !this.agent.session) {
+      await this.initialize();
+    } else if (this.isSessionExpiring()) {
+      console.log(`[ATProto] Access token expiring, refreshing before ${label}`);
+      await this.renewSession();
+    }
+
+    await this.rateLimiter.checkRateLimit(signal);
+    this.throwIfAborted(label, signal);
+
+    try {
+      const result = await request(signal);
+      this.rateLimiter.updateFromHeaders(result.headers);
+      this.rateLimiter.resetErrorCount();
+      return result;
+    } catch (error) {
+      // An aborted call fails like a lost connection
+      this.throwIfAborted(label, signal);
+
+      if (!isXrpcError(error) || retries <= 0) {
+        throw error;
+      }
+
+      if (error.status === 429) {
+        this.rateLimitHits++;
+        this.rateLimiter.updateFromHeaders(error.headers);
+        const waitTime = this.rateLimiter.handleRateLimitError(getRetryAfter(error));
+        console.log(`[ATProto] ${this.identifier} rate limited on ${label}, waiting ${Math.round(waitTime)}ms before retry`);
+        await delay(waitTime, signal);
+        return this.call(label, request, retries - 1);
+      }
+
+      if (error.status === 401 || error.error === 'ExpiredToken' || error.error === 'InvalidToken') {
+        console.log(`[ATProto] Session rejected on ${label}, renewing`);
+        await this.renewSession();
+        // Renewal is only worth one attempt
+        return this.call(label, request, 0);
+      }
+
+      if (error.status >= 500) {
+        const waitTime = this.rateLimiter.handleRateLimitError();
+        console.log(`[ATProto] ${label} failed with ${error.status}, retrying in ${Math.round(waitTime)}ms`);
+        await delay(waitTime, signal);
+        return this.call(label, request, retries - 1);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a call whose job has been cancelled
+   */
+  private throwIfAborted(label: string, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new RequestCancelledError(`${label} cancelled`);
+    }
+  }
+
+  /**
+   * Bare handles are assumed to be on bsky.social
+   */
+  private formatActor(actor: string): string {
+    return actor.startsWith('did:') || actor.includes('.') ? actor : `${actor}.bsky.social`;
+  }
+
+  /**
+   * Resolve a handle to its DID
+   * @param handle User's handle
+   */
+  async resolveHandle(handle: string): Promise<string> {
+    console.log(`[ATProto] Resolving handle ${handle}`);
+    const response = await this.call(`resolveHandle ${handle}`, signal =>
+      this.agent.resolveHandle({ handle: this.formatActor(handle) }, { signal })
+    );
+    console.log(`[ATProto] Resolved ${handle} to ${response.data.did}`);
+    return response.data.did;
+  }
+
+  /**
+   * Get user profile
+   * @param actor Handle or DID
+   */
+  async getProfile(actor: string): Promise<BskyProfile> {
+    console.log(`[ATProto] Making API call to fetch profile for ${actor}`);
+    const response = await this.call(`getProfile ${actor}`, signal =>
+      this.agent.getProfile({ actor: this.formatActor(actor) }, { signal })
+    );
+    console.log(`[ATProto] Profile fetched successfully for ${actor}`);
+    console.log('- Response:', response.data);
+    return toProfile(response.data);
+  }
+
+  /**
+   * Get profiles for up to 25 accounts in a single request
+   * @param actors Handles or DIDs
+   */
+  async getProfiles(actors: string[]): Promise<BskyProfile[]> {
+    if (actors.length > MAX_PROFILES_PER_REQUEST) {
+      throw new Error(`Cannot fetch more than ${MAX_PROFILES_PER_REQUEST} profiles per request`);
+    }
+
+    const response = await this.call(`getProfiles (${actors.length})`, signal =>
+      this.agent.getProfiles({ actors: actors.map(actor => this.formatActor(actor)) }, { signal })
+    );
+    console.log(`[ATProto] Fetched ${response.data.profiles.length} profiles`);
+    return response.data.profiles.map(toProfile);
+  }
+
+  /**
+   * Get a single page of a user's followers, newest first
+   * @param actor Handle or DID
+   * @param cursor Cursor returned by the previous page
+   */
+  async getFollowers(actor: string, cursor?: string): Promise<FollowPage> {
+    console.log(`[ATProto] Making API call to fetch followers for ${actor}`);
+    console.log(`- Cursor: ${cursor || 'initial'}`);
+
+    const response = await this.call(`getFollowers ${actor}`, signal =>
+      this.agent.getFollowers({
+        actor: this.formatActor(actor),
+        limit: FOLLOW_PAGE_SIZE,
+        cursor
+      }, { signal })
+    );
+
+    console.log(`[ATProto] Fetched ${response.data.followers.length} followers`);
+    return {
+      items: response.data.followers.map(toFollower),
+      cursor: response.data.cursor
+    };
+  }
+
+  /**
+   * Get a single page of the accounts a user follows, newest first
+   * @param actor Handle or DID
+   * @param cursor Cursor returned by the previous page
+   */
+  async getFollowing(actor: string, cursor?: string): Promise<FollowPage> {
+    console.log(`[ATProto] Making API call to fetch following for ${actor}`);
+    console.log(`- Cursor: ${cursor || 'initial'}`);
+
+    const response = await this.call(`getFollowing ${actor}`, signal =>
+      this.agent.getFollows({
+        actor: this.formatActor(actor),
+        limit: FOLLOW_PAGE_SIZE,
+        cursor
+      }, { signal })
+    );
+
+    console.log(`[ATProto] Fetched ${response.data.follows.length} following`);
+    return {
+      items: response.data.follows.map(toFollower),
+      cursor: response.data.cursor
+    };
+  }
+}
@@ -1,50 +1,100 @@
 import dotenv from 'dotenv';
-import { RateLimitConfig } from './interfaces';
+import { AccountCredentials, RateLimitConfig } from './interfaces';
 
 dotenv.config();
 
 export const {
   BSKY_IDENTIFIER,
   BSKY_APP_PASSWORD,
+  // Several accounts as comma separated identifier:app-password pairs, used instead of the single account
+  BSKY_ACCOUNTS,
+  // Secret used to encrypt the stored login session; sessions are not stored without it
+  SESSION_ENCRYPTION_KEY,
 } = process.env;
 
-export const AUTH_API = 'https://bsky.social/xrpc';
-export const BSKY_API = 'https://api.bsky.app';
+export const BSKY_SERVICE = process.env.BSKY_SERVICE || 'https://bsky.social';
 
-// Strict rate limiting configuration aligned with Bluesky's limits
+// API page sizes
+export const FOLLOW_PAGE_SIZE = 100;
+export const MAX_PROFILES_PER_REQUEST = 25;
+
+// How long an account that failed to authenticate is left out of the pool
+export const ACCOUNT_QUARANTINE_MS = 30 * 60 * 1000; // 30 minutes
+
+// Rate limiting configuration; the budget is replaced by the server's ratelimit-* headers once it responds
 export const RATE_LIMIT: RateLimitConfig = {
-  maxRequests: 80,  // Conservative limit (below Bluesky's 100/5min)
+  maxRequests: 3000, // Bluesky's documented limit per window
   timeWindow: 300 * 1000, // 5 minutes in milliseconds
-  minWaitTime: 2000, // Minimum wait time between requests (2 seconds)
+  burst: 10, // Requests that may go out back to back
+  baseBackoffTime: 2000, // Backoff after the first failed request (2 seconds)
   backoffFactor: 1.5, // Exponential backoff factor
   maxBackoffTime: 60 * 1000, // Maximum backoff time (1 minute)
-  jitterMax: 1000, // Maximum random jitter to add to delays
+  jitterMax: 250, // Maximum random jitter to add to delays
 };
 
+/**
+ * Accounts to make requests with, from BSKY_ACCOUNTS or else BSKY_IDENTIFIER and BSKY_APP_PASSWORD
+ */
+export function getAccountCredentials(): AccountCredentials[] {
+  if (BSKY_ACCOUNTS) {
+    return BSKY_ACCOUNTS.split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        // App passwords never contain ":", identifiers neither
+        const separator = entry.indexOf(':');
+        return separator === -1
+          ? { identifier: entry, password: '' }
+          : { identifier: entry.slice(0, separator), password: entry.slice(separator + 1) };
+      });
+  }
+
+  return BSKY_IDENTIFIER || BSKY_APP_PASSWORD
+    ? [{ identifier: BSKY_IDENTIFIER || '', password: BSKY_APP_PASSWORD || '' }]
+    : [];
+}
+
 /**
  * Validate BlueSky API configuration
  * @throws {Error} If configuration is invalid
  */
 export function validateConfig(): void {
   console.log('Validating AT Protocol configuration...');
-  
-  if (!BSKY_IDENTIFIER) {
-    const error = 'BlueSky identifier not configured. Check BSKY_IDENTIFIER in .env';
-    console.error(error);
-    throw new Error(error);
-  }
-  
-  if (!BSKY_APP_PASSWORD) {
-    const error = 'BlueSky app password not configured. Check BSKY_APP_PASSWORD in .env';
+  const accounts = getAccountCredentials();
+  const source = BSKY_ACCOUNTS ? 'BSKY_ACCOUNTS' : 'BSKY_IDENTIFIER and BSKY_APP_PASSWORD';
+
+  if (accounts.length === 0) {
+    const error = 'BlueSky identifier not configured. Check BSKY_IDENTIFIER or BSKY_ACCOUNTS in .env';
     console.error(error);
     throw new Error(error);
   }
-  
-  if (BSKY_APP_PASSWORD === 'your-app-password') {
-    const error = 'BlueSky app password is set to default value. Please update BSKY_APP_PASSWORD in .env';
+
+  accounts.forEach(({ identifier, password }) => {
+    if (!identifier) {
+      const error = `BlueSky identifier not configured. Check ${source} in .env`;
+      console.error(error);
+      throw new Error(error);
+    }
+
+    if (!password) {
+      const error = `BlueSky app password not configured for ${identifier}. Check ${source} in .env`;
+      console.error(error);
+      throw new Error(error);
+    }
+
+    if (password === 'your-app-password') {
+      const error = `BlueSky app password for ${identifier} is set to default value. Please update ${source} in .env`;
+      console.error(error);
+      throw new Error(error);
+    }
+  });
+
+  if (new Set(accounts.map(account => account.identifier)).size !== accounts.length) {
+    const error = 'The same BlueSky account is listed more than once. Check BSKY_ACCOUNTS in .env';
     console.error(error);
     throw new Error(error);
   }
-  
+
   console.log('AT Protocol configuration validated');
+  console.log(`- Accounts: ${accounts.length}`);
 }
@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ApiBudget } from '../../../shared/types';
+import { AccountCredentials, BskyProfile, FollowPage, SocialGraphSource } from './interfaces';
+import { ACCOUNT_QUARANTINE_MS, BSKY_SERVICE, getAccountCredentials, validateConfig } from './config';
+import { AtprotoClient, AccountAuthError } from './client';
+
+interface PooledAccount {
+  client: AtprotoClient;
+  quarantinedUntil: number;
+  lastError?: string;
+}
+
+/**
+ * CredentialPool
+ * Live social graph from the AT Protocol API, spread over several accounts
+ * Each queued request runs on the account with the most remaining budget;
+ * accounts that fail to authenticate sit out for a while
+ */
+export class CredentialPool implements SocialGraphSource {
+  readonly name = 'atproto';
+  readonly rateLimited = true;
+  private accounts: PooledAccount[];
+  // Account assigned to the request running in the current async context
+  private assigned = new AsyncLocalStorage<PooledAccount>();
+
+  /**
+   * @param credentials Accounts to use, defaulting to the ones configured in .env
+   * @param service PDS service URL
+   */
+  constructor(credentials: AccountCredentials[] = getAccountCredentials(), service: string = BSKY_SERVICE) {
+    this.accounts = credentials.map(account => ({
+      client: new AtprotoClient(account, service),
+      quarantinedUntil: 0
+    }));
+  }
+
+  /**
+   * Number of accounts requests are spread over
+   */
+  get accountCount(): number {
+    return this.accounts.length;
+  }
+
+  /**
+   * Validate AT Protocol configuration
+   */
+  validateConfig(): void {
+    validateConfig();
+    console.log(`- Service: ${BSKY_SERVICE}`);
+    this.accounts.forEach(({ client }) => console.log(`- Account: ${client.identifier}`));
+  }
+
+  /**
+   * Log in every account that is not quarantined
+   * Fails only when no account could log in
+   */
+  async initialize(): Promise<void> {
+    console.log(`[CredentialPool] Initializing ${this.accounts.length} accounts`);
+
+    const results = await Promise.allSettled(
+      this.available().map(async account => {
+        try {
+          await account.client.initialize();
+        } catch (error) {
+          this.quarantine(account, error);
+          throw error;
+        }
+      })
+    );
+
+    const ready = results.filter(result => result.status === 'fulfilled').length;
+    console.log(`[CredentialPool] ${ready} of ${this.accounts.length} accounts ready`);
+
+    if (ready === 0) {
+      throw new Error('Failed to authenticate with Bluesky on any account');
+    }
+  }
+
+  /**
+   * Check if at least one account is ready for requests
+   */
+  isAuthenticated(): boolean {
+    return this.available().some(({ client }) => client.isAuthenticated());
+  }
+
+  /**
+   * Run a queued request on the account with the most remaining budget
+   * @param request Request to run
+   */
+  async assign<T>(request: () => Promise<T>): Promise<T> {
+    return this.assigned.run(this.select(), request);
+  }
+
+  /**
+   * Remaining request budget over all available accounts
+   */
+  getBudget(): ApiBudget {
+    const now = Date.now();
+    const accounts = this.accounts.map(({ client, quarantinedUntil }) => ({
+      ...client.getBudget(),
+      quarantined: quarantinedUntil > now
+    }));
+    const available = accounts.filter(account => !account.quarantined);
+    const resets = available
+      .map(account => account.resetAt)
+      .filter((resetAt): resetAt is string => resetAt !== null)
+      .sort();
+
+    return {
+      source: this.name,
+      rateLimited: this.rateLimited,
+      remaining: available.reduce((sum, account) => sum + account.remaining, 0),
+      limit: available.reduce((sum, account) => sum + account.limit, 0),
+      resetAt: resets[0] || null,
+      requestsPerMinute: available.reduce((sum, account) => sum + account.requestsPerMinute, 0),
+      accounts
+    };
+  }
+
+  /**
+   * Per-account budget and health, for logs and diagnostics
+   */
+  getStatus() {
+    const now = Date.now();
+    return this.accounts.map(({ client, quarantinedUntil, lastError }) => ({
+      identifier: client.identifier,
+      remaining: client.getRemaining(),
+      rateLimitHits: client.rateLimitHits,
+      quarantined: quarantinedUntil > now,
+      quarantinedUntil: quarantinedUntil > now ? new Date(quarantinedUntil).toISOString() : undefined,
+      lastError
+    }));
+  }
+
+  /**
+   * Resolve a handle to its DID
+   * @param handle User's handle
+   */
+  async resolveHandle(handle: string): Promise<string> {
+    return this.withAccount(client => client.resolveHandle(handle));
+  }
+
+  /**
+   * Get user profile
+   * @param actor Handle or DID
+   */
+  async getProfile(actor: string): Promise<BskyProfile> {
+    return this.withAccount(client => client.getProfile(actor));
+  }
+
+  /**
+   * Get profiles for up to 25 accounts in a single request
+   * @param actors Handles or DIDs
+   */
+  async getProfiles(actors: string[]): Promise<BskyProfile[]> {
+    return this.withAccount(client => client.getProfiles(actors));
+  }
+
+  /**
+   * Get a single page of a user's followers, newest first
+   * @param actor Handle or DID
+   * @param cursor Cursor returned by the previous page
+   */
+  async getFollowers(actor: string, cursor?: string): Promise<FollowPage> {
+    return this.withAccount(client => client.getFollowers(actor, cursor));
+  }
+
+  /**
+   * Get a single page of the accounts a user follows, newest first
+   * @param actor Handle or DID
+   * @param cursor Cursor returned by the previous page
+   */
+  async getFollowing(actor: string, cursor?: string): Promise<FollowPage> {
+    return this.withAccount(client => client.getFollowing(actor, cursor));
+  }
+
+  /**
+   * Accounts that are not quarantined
+   */
+  private available(): PooledAccount[] {
+    const now = Date.now();
+    return this.accounts.filter(account => account.quarantinedUntil <= now);
+  }
+
+  /**
+   * Available account with the most remaining budget
+   */
+  private select(): PooledAccount {
+    const candidates = this.available();
+    if (candidates.length === 0) {
+      throw new Error('No Bluesky account available: all accounts are quarantined after failing to authenticate');
+    }
+
+    return candidates.reduce((best, account) =>
+      account.client.getRemaining() > best.client.getRemaining() ? account : best
+    );
+  }
+
+  /**
+   * Make a call on the assigned account, moving to another account if it fails to authenticate
+   */
+  private async withAccount<T>(call: (client: AtprotoClient) => Promise<T>): Promise<T> {
+    let account = this.assigned.getStore();
+    if (!account || account.quarantinedUntil > Date.now()) {
+      account = this.select();
+    }
+
+    try {
+      return await call(account.client);
+    } catch (error) {
+      if (!(error instanceof AccountAuthError)) {
+        throw error;
+      }
+
+      this.quarantine(account, error);
+      // Throws once every account is quarantined
+      return this.withAccount(call);
+    }
+  }
+
+  private quarantine(account: PooledAccount, error: unknown): void {
+    account.quarantinedUntil = Date.now() + ACCOUNT_QUARANTINE_MS;
+    account.lastError = error instanceof Error ? error.message : String(error);
+
+    console.error(`[CredentialPool] Quarantining ${account.client.identifier}`);
+    console.error(`- Reason: ${account.lastError}`);
+    console.error(`- Until: ${new Date(account.quarantinedUntil).toISOString()}`);
+  }
+}
@@ -0,0 +1,248 @@
+import { existsSync } from 'fs';
+import { ApiBudget } from '../../../shared/types';
+import { readFile } from 'fs/promises';
+import {
+  BskyProfile,
+  BskyFollower,
+  FollowPage,
+  FixtureAccount,
+  SocialGraphFixture,
+  SocialGraphSource
+} from './interfaces';
+import { FOLLOW_PAGE_SIZE, MAX_PROFILES_PER_REQUEST } from './config';
+
+/**
+ * FixtureGraphSource
+ * Recorded social graph served from memory, for running the app without credentials or network access
+ * The graph is read from a JSON fixture file on initialize, or passed in directly
+ */
+export class FixtureGraphSource implements SocialGraphSource {
+  readonly name = 'fixture';
+  readonly rateLimited = false;
+  readonly accountCount = 1;
+  private accounts = new Map<string, FixtureAccount>(); // DID -> account
+  private dids = new Map<string, string>(); // handle -> DID
+  private followers = new Map<string, string[]>(); // DID -> follower DIDs, newest first
+  private following = new Map<string, string[]>(); // DID -> followed DIDs, newest first
+  private loaded = false;
+
+  /**
+   * @param fixturePath JSON fixture file to read on initialize
+   * @param fixture Graph to serve instead of reading a file
+   */
+  constructor(private readonly fixturePath?: string, fixture?: SocialGraphFixture) {
+    if (fixture) {
+      this.load(fixture);
+    }
+  }
+
+  /**
+   * Check that there is a graph to serve
+   */
+  validateConfig(): void {
+    console.log('[Fixture] Validating configuration');
+
+    if (!this.loaded && (!this.fixturePath || !existsSync(this.fixturePath))) {
+      console.error(`[Fixture] Fixture file not found: ${this.fixturePath}`);
+      throw new Error(`Fixture file not found: ${this.fixturePath}. Check BSKY_FIXTURE_PATH in .env`);
+    }
+
+    console.log('[Fixture] Configuration valid');
+    console.log(`- Fixture: ${this.loaded ? 'in memory' : this.fixturePath}`);
+  }
+
+  /**
+   * Read the fixture file, unless a graph was passed in
+   */
+  async initialize(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    if (!this.fixturePath) {
+      throw new Error('No fixture file configured');
+    }
+
+    console.log(`[Fixture] Loading fixture from ${this.fixturePath}`);
+    const fixture = JSON.parse(await readFile(this.fixturePath, 'utf8')) as SocialGraphFixture;
+    this.load(fixture);
+  }
+
+  /**
+   * There are no accounts to choose between, so requests run as they are
+   */
+  async assign<T>(request: () => Promise<T>): Promise<T> {
+    return request();
+  }
+
+  /**
+   * The fixture has no rate limit, so its budget never runs down
+   */
+  getBudget(): ApiBudget {
+    return {
+      source: this.name,
+      rateLimited: false,
+      remaining: 0,
+      limit: 0,
+      resetAt: null,
+      requestsPerMinute: 0,
+      accounts: []
+    };
+  }
+
+  /**
+   * The fixture needs no login; it is ready once loaded
+   */
+  isAuthenticated(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Index a fixture's accounts and follows
+   * @param fixture Graph to serve
+   */
+  load(fixture: SocialGraphFixture): void {
+    if (!Array.isArray(fixture?.accounts) || !Array.isArray(fixture?.follows)) {
+      throw new Error('Fixture must contain "accounts" and "follows" arrays');
+    }
+
+    this.accounts.clear();
+    this.dids.clear();
+    this.followers.clear();
+    this.following.clear();
+
+    fixture.accounts.forEach(account => {
+      this.accounts.set(account.did, account);
+      this.dids.set(account.handle, account.did);
+      this.followers.set(account.did, []);
+      this.following.set(account.did, []);
+    });
+
+    // Later follows are newer and go first, as in the API
+    const seen = new Set<string>();
+    [...fixture.follows].reverse().forEach(([from, to]) => {
+      const follower = this.findDid(from);
+      const followed = this.findDid(to);
+      if (!follower || !followed) {
+        throw new Error(`Fixture follow references an unknown account: ${follower ? to : from}`);
+      }
+
+      const key = `${follower} ${followed}`;
+      if (follower === followed || seen.has(key)) return;
+      seen.add(key);
+
+      this.following.get(follower)!.push(followed);
+      this.followers.get(followed)!.push(follower);
+    });
+
+    this.loaded = true;
+    console.log('[Fixture] Fixture loaded');
+    console.log(`- Accounts: ${this.accounts.size}`);
+    console.log(`- Follows: ${seen.size}`);
+  }
+
+  /**
+   * Resolve a handle to its DID
+   * @param handle User's handle
+   */
+  async resolveHandle(handle: string): Promise<string> {
+    const did = this.dids.get(handle);
+    if (!did) {
+      throw new Error(`Unable to resolve handle: ${handle}`);
+    }
+    return did;
+  }
+
+  /**
+   * Get user profile
+   * @param actor Handle or DID
+   */
+  async getProfile(actor: string): Promise<BskyProfile> {
+    const did = this.findDid(actor);
+    if (!did) {
+      throw new Error(`Profile not found: ${actor}`);
+    }
+    return this.toProfile(did);
+  }
+
+  /**
+   * Get profiles for up to 25 accounts; unknown accounts are left out, as in the API
+   * @param actors Handles or DIDs
+   */
+  async getProfiles(actors: string[]): Promise<BskyProfile[]> {
+    if (actors.length > MAX_PROFILES_PER_REQUEST) {
+      throw new Error(`Cannot fetch more than ${MAX_PROFILES_PER_REQUEST} profiles per request`);
+    }
+
+    return actors
+      .map(actor => this.findDid(actor))
+      .filter((did): did is string => did !== undefined)
+      .map(did => this.toProfile(did));
+  }
+
+  /**
+   * Get a single page of a user's followers, newest first
+   * @param actor Handle or DID
+   * @param cursor Cursor returned by the previous page
+   */
+  async getFollowers(actor: string, cursor?: string): Promise<FollowPage> {
+    return this.page(this.followers, actor, cursor);
+  }
+
+  /**
+   * Get a single page of the accounts a user follows, newest first
+   * @param actor Handle or DID
+   * @param cursor Cursor returned by the previous page
+   */
+  async getFollowing(actor: string, cursor?: string): Promise<FollowPage> {
+    return this.page(this.following, actor, cursor);
+  }
+
+  /**
+   * Slice a follow list into pages; the cursor is the offset of the next page
+   */
+  private page(lists: Map<string, string[]>, actor: string, cursor?: string): FollowPage {
+    const did = this.findDid(actor);
+    if (!did) {
+      throw new Error(`Profile not found: ${actor}`);
+    }
+
+    const list = lists.get(did)!;
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const next = offset + FOLLOW_PAGE_SIZE;
+
+    return {
+      items: list.slice(offset, next).map(id => this.toFollower(id)),
+      cursor: next < list.length ? String(next) : undefined
+    };
+  }
+
+  /**
+   * DID of an account given its DID or handle
+   */
+  private findDid(actor: string): string | undefined {
+    return this.accounts.has(actor) ? actor : this.dids.get(actor);
+  }
+
+  private toFollower(did: string): BskyFollower {
+    const account = this.accounts.get(did)!;
+    const followsCount = this.following.get(did)!.length;
+    return {
+      did,
+      handle: account.handle,
+      displayName: account.displayName || account.handle,
+      avatar: account.avatar || '',
+      description: account.description || '',
+      followersCount: this.followers.get(did)!.length,
+      followingCount: followsCount,
+      followsCount,
+      postsCount: account.postsCount || 0
+    };
+  }
+
+  private toProfile(did: string): BskyProfile {
+    return {
+      ...this.toFollower(did),
+      indexedAt: new Date().toISOString()
+    };
+  }
+}
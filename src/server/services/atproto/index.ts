@@ -1,87 +1,106 @@
-import { BskyAgent } from '@atproto/api';
-import { BskyProfile, BskyFollower } from './interfaces';
+import { ApiBudget } from '../../../shared/types';
+import { BskyProfile, BskyFollower, FollowPage, SocialGraphSource } from './interfaces';
+import { CredentialPool } from './credentialPool';
+import { FixtureGraphSource } from './fixtureSource';
+import { requestQueue } from '../../utils/requestQueue';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-// Create BskyAgent instance
-const agent = new BskyAgent({
-  service: process.env.BSKY_SERVICE || 'https://bsky.social'
-});
+export { MAX_PROFILES_PER_REQUEST } from './config';
 
-let isInitialized = false;
+// Fixture served when BSKY_SOURCE=fixture and no BSKY_FIXTURE_PATH is set
+const DEFAULT_FIXTURE_PATH = 'fixtures/sample-network.json';
 
 /**
- * Convert any value to a number, defaulting to 0 if invalid
+ * Create the social graph source selected by BSKY_SOURCE
+ * "atproto" (default) calls the live API with the configured accounts; "fixture" serves a recorded graph offline
  */
-function toNumber(value: any): number {
-  if (typeof value === 'number') return value;
-  if (typeof value === 'string') {
-    const num = parseInt(value, 10);
-    return isNaN(num) ? 0 : num;
+function createSource(): SocialGraphSource {
+  const sourceName = process.env.BSKY_SOURCE || 'atproto';
+
+  switch (sourceName) {
+    case 'atproto':
+      return new CredentialPool();
+    case 'fixture':
+      return new FixtureGraphSource(process.env.BSKY_FIXTURE_PATH || DEFAULT_FIXTURE_PATH);
+    default:
+      throw new Error(`Unknown BSKY_SOURCE "${sourceName}". Expected "atproto" or "fixture"`);
   }
-  return 0;
 }
 
+let source: SocialGraphSource = createSource();
+requestQueue.setSource(source);
+
 /**
- * Validate AT Protocol configuration
+ * Get the active social graph source
  */
-export function validateConfig(): void {
-  console.log('[ATProto] Validating configuration');
-  const handle = process.env.BSKY_IDENTIFIER;
-  const password = process.env.BSKY_APP_PASSWORD;
+export function getSource(): SocialGraphSource {
+  return source;
+}
+
+/**
+ * Replace the active social graph source, e.g. with an in-memory fixture
+ * @param next Source to use from now on
+ */
+export function setSource(next: SocialGraphSource): void {
+  console.log(`[ATProto] Switching social graph source from ${source.name} to ${next.name}`);
+  source = next;
+  requestQueue.setSource(next);
+}
 
-  if (!handle || !password) {
-    console.error('[ATProto] Missing Bluesky credentials in .env');
-    throw new Error('Bluesky handle or app password not configured in .env');
+/**
+ * Active source, initialized on first use
+ */
+async function readySource(): Promise<SocialGraphSource> {
+  if (!source.isAuthenticated()) {
+    console.log('[ATProto] Not authenticated, initializing...');
+    await source.initialize();
   }
+  return source;
+}
 
-  console.log('[ATProto] Configuration valid');
-  console.log(`- Service: ${process.env.BSKY_SERVICE || 'https://bsky.social'}`);
-  console.log(`- Handle: ${handle}`);
+/**
+ * Validate the configuration of the active source
+ */
+export function validateConfig(): void {
+  console.log(`[ATProto] Social graph source: ${source.name}`);
+  source.validateConfig();
 }
 
 /**
- * Initialize AT Protocol authentication
+ * Initialize the active source
  */
 export async function initialize(): Promise<void> {
-  console.log('[ATProto] Initializing authentication');
-  
-  const handle = process.env.BSKY_IDENTIFIER;
-  const password = process.env.BSKY_APP_PASSWORD;
-
-  if (!handle || !password) {
-    console.error('[ATProto] Missing Bluesky credentials');
-    throw new Error('Bluesky handle or app password not configured in .env');
-  }
-
-  try {
-    console.log(`[ATProto] Attempting to login as ${handle}`);
-    const response = await agent.login({
-      identifier: handle,
-      password: password
-    });
-    
-    console.log('[ATProto] Login successful');
-    console.log(`- DID: ${response.data.did}`);
-    console.log(`- Handle: ${response.data.handle}`);
-    console.log(`- Email: ${response.data.email}`);
-    
-    isInitialized = true;
-  } catch (error) {
-    console.error('[ATProto] Authentication failed:', error);
-    throw new Error('Failed to authenticate with Bluesky');
-  }
+  await source.initialize();
 }
 
 /**
- * Check if the agent is authenticated
+ * Check if the active source is ready for requests
  */
 export function isAuthenticated(): boolean {
-  const hasSession = agent.session !== undefined;
-  console.log(`[ATProto] Authentication check - Session exists: ${hasSession}`);
-  return isInitialized && hasSession;
+  return source.isAuthenticated();
+}
+
+/**
+ * Remaining request budget of the active source
+ */
+export function getBudget(): ApiBudget {
+  return source.getBudget();
+}
+
+/**
+ * Resolve a handle to its DID
+ * @param handle User's handle
+ */
+export async function resolveHandle(handle: string): Promise<string> {
+  try {
+    return await (await readySource()).resolveHandle(handle);
+  } catch (error) {
+    console.error(`[ATProto] Error resolving handle ${handle}:`, error);
+    throw error;
+  }
 }
 
 /**
@@ -90,81 +109,66 @@ export function isAuthenticated(): boolean {
  */
 export async function getProfile(handle: string): Promise<BskyProfile> {
   console.log(`[ATProto] Fetching profile for ${handle}`);
-  
+
   try {
-    // Ensure we're authenticated
-    if (!isAuthenticated()) {
-      console.log('[ATProto] Not authenticated, initializing...');
-      await initialize();
-    }
-
-    // Fetch profile
-    console.log(`[ATProto] Making API call to fetch profile for ${handle}`);
-    const response = await agent.getProfile({ actor: handle });
-    console.log(`[ATProto] Profile fetched successfully for ${handle}`);
-    console.log('- Response:', response.data);
-
-    return {
-      did: response.data.did,
-      handle: response.data.handle,
-      displayName: response.data.displayName || response.data.handle,
-      avatar: response.data.avatar || '',
-      followersCount: toNumber(response.data.followersCount),
-      followingCount: toNumber(response.data.followsCount),
-      followsCount: toNumber(response.data.followsCount),
-      postsCount: toNumber(response.data.postsCount),
-      indexedAt: response.data.indexedAt || new Date().toISOString()
-    };
+    return await (await readySource()).getProfile(handle);
   } catch (error) {
     console.error(`[ATProto] Error fetching profile for ${handle}:`, error);
     throw error;
   }
 }
 
+/**
+ * Get profiles for up to 25 accounts in a single request
+ * @param actors Handles or DIDs
+ */
+export async function getProfiles(actors: string[]): Promise<BskyProfile[]> {
+  console.log(`[ATProto] Fetching ${actors.length} profiles`);
+
+  try {
+    return await (await readySource()).getProfiles(actors);
+  } catch (error) {
+    console.error(`[ATProto] Error fetching profiles:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single page of a user's followers, newest first
+ * @param handle User's handle or DID
+ * @param cursor Cursor returned by the previous page
+ */
+export async function getFollowersPage(handle: string, cursor?: string): Promise<FollowPage> {
+  return (await readySource()).getFollowers(handle, cursor);
+}
+
+/**
+ * Get a single page of the accounts a user follows, newest first
+ * @param handle User's handle or DID
+ * @param cursor Cursor returned by the previous page
+ */
+export async function getFollowingPage(handle: string, cursor?: string): Promise<FollowPage> {
+  return (await readySource()).getFollowing(handle, cursor);
+}
+
 /**
  * Get user's followers with pagination
  * @param handle User's handle
  */
 export async function getFollowers(handle: string): Promise<BskyFollower[]> {
   console.log(`[ATProto] Fetching followers for ${handle}`);
-  
-  try {
-    // Ensure we're authenticated
-    if (!isAuthenticated()) {
-      console.log('[ATProto] Not authenticated, initializing...');
-      await initialize();
-    }
 
+  try {
     const followers: BskyFollower[] = [];
     let cursor: string | undefined;
 
     // Fetch all followers with pagination
     do {
-      console.log(`[ATProto] Making API call to fetch followers for ${handle}`);
-      console.log(`- Cursor: ${cursor || 'initial'}`);
-      
-      const response = await agent.getFollowers({
-        actor: handle,
-        limit: 100,
-        cursor
-      });
-
-      console.log(`[ATProto] Fetched ${response.data.followers.length} followers`);
-
-      // Add followers to our list
-      followers.push(...response.data.followers.map(follower => ({
-        did: follower.did,
-        handle: follower.handle,
-        displayName: follower.displayName || follower.handle,
-        avatar: follower.avatar || '',
-        followersCount: toNumber(follower.followersCount),
-        followingCount: toNumber(follower.followsCount),
-        followsCount: toNumber(follower.followsCount),
-        postsCount: toNumber(follower.postsCount)
-      })));
+      const page = await getFollowersPage(handle, cursor);
+      followers.push(...page.items);
 
       // Update cursor for next page
-      cursor = response.data.cursor;
+      cursor = page.cursor;
       console.log(`- Next cursor: ${cursor || 'none'}`);
       console.log(`- Total followers so far: ${followers.length}`);
 
@@ -186,44 +190,18 @@ export async function getFollowers(handle: string): Promise<BskyFollower[]> {
  */
 export async function getFollowing(handle: string): Promise<BskyFollower[]> {
   console.log(`[ATProto] Fetching following for ${handle}`);
-  
-  try {
-    // Ensure we're authenticated
-    if (!isAuthenticated()) {
-      console.log('[ATProto] Not authenticated, initializing...');
-      await initialize();
-    }
 
+  try {
     const following: BskyFollower[] = [];
     let cursor: string | undefined;
 
     // Fetch all following with pagination
     do {
-      console.log(`[ATProto] Making API call to fetch following for ${handle}`);
-      console.log(`- Cursor: ${cursor || 'initial'}`);
-      
-      const response = await agent.getFollows({
-        actor: handle,
-        limit: 100,
-        cursor
-      });
-
-      console.log(`[ATProto] Fetched ${response.data.follows.length} following`);
-
-      // Add following to our list
-      following.push(...response.data.follows.map(follow => ({
-        did: follow.did,
-        handle: follow.handle,
-        displayName: follow.displayName || follow.handle,
-        avatar: follow.avatar || '',
-        followersCount: toNumber(follow.followersCount),
-        followingCount: toNumber(follow.followsCount),
-        followsCount: toNumber(follow.followsCount),
-        postsCount: toNumber(follow.postsCount)
-      })));
+      const page = await getFollowingPage(handle, cursor);
+      following.push(...page.items);
 
       // Update cursor for next page
-      cursor = response.data.cursor;
+      cursor = page.cursor;
       console.log(`- Next cursor: ${cursor || 'none'}`);
       console.log(`- Total following so far: ${following.length}`);
 
@@ -243,7 +221,14 @@ export default {
   validateConfig,
   initialize,
   isAuthenticated,
+  getBudget,
+  getSource,
+  setSource,
+  resolveHandle,
   getProfile,
+  getProfiles,
   getFollowers,
-  getFollowing
+  getFollowersPage,
+  getFollowing,
+  getFollowingPage
 };
@@ -1,8 +1,11 @@
+import { ApiBudget } from '../../../shared/types';
+
 export interface BskyProfile {
   did: string;
   handle: string;
   displayName?: string;
   avatar?: string;
+  description?: string;
   followersCount: number;
   followingCount: number;
   followsCount: number;
@@ -15,8 +18,74 @@ export interface BskyFollower {
   handle: string;
   displayName?: string;
   avatar?: string;
+  description?: string;
   followersCount: number;
   followingCount: number;
   followsCount: number;
   postsCount: number;
 }
+
+// Login for one account of the credential pool
+export interface AccountCredentials {
+  identifier: string;
+  password: string;
+}
+
+// Request budget for the AT Protocol API until the server reports its own, with backoff after errors
+export interface RateLimitConfig {
+  maxRequests: number;
+  timeWindow: number;
+  burst: number;
+  baseBackoffTime: number;
+  backoffFactor: number;
+  maxBackoffTime: number;
+  jitterMax: number;
+}
+
+// One page of a follower or following list
+export interface FollowPage {
+  items: BskyFollower[];
+  cursor?: string;
+}
+
+/**
+ * Where profiles and follow lists come from
+ * The live source calls the AT Protocol API; the fixture source serves a recorded graph offline
+ */
+export interface SocialGraphSource {
+  readonly name: string;
+  // Whether requests must be spaced out to stay within an API rate limit
+  readonly rateLimited: boolean;
+  // Number of accounts requests are spread over
+  readonly accountCount: number;
+  validateConfig(): void;
+  // Run a queued request, on the account best able to take it
+  assign<T>(request: () => Promise<T>): Promise<T>;
+  // Remaining request budget, as last reported by the server
+  getBudget(): ApiBudget;
+  initialize(): Promise<void>;
+  isAuthenticated(): boolean;
+  resolveHandle(handle: string): Promise<string>;
+  getProfile(actor: string): Promise<BskyProfile>;
+  getProfiles(actors: string[]): Promise<BskyProfile[]>;
+  // Follow lists are paginated, newest first
+  getFollowers(actor: string, cursor?: string): Promise<FollowPage>;
+  getFollowing(actor: string, cursor?: string): Promise<FollowPage>;
+}
+
+// Account in a fixture file; counts are derived from the follows
+export interface FixtureAccount {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+  description?: string;
+  postsCount?: number;
+}
+
+// Recorded social graph served by the fixture source
+export interface SocialGraphFixture {
+  accounts: FixtureAccount[];
+  // [follower, followed] pairs by DID or handle, oldest first
+  follows: [string, string][];
+}
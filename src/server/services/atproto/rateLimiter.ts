@@ -1,72 +1,128 @@
+import { RateLimitBudget } from '../../../shared/types';
 import { RateLimitConfig } from './interfaces';
 
 /**
- * Advanced Rate Limiter for managing API request frequency
- * Implements token bucket algorithm with exponential backoff
+ * Wait for a time, cut short once the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Token bucket rate limiter driven by the server's rate limit headers
+ * The bucket refills at whatever pace spreads the remaining budget over the time
+ * left in the server's window, so requests neither stall nor run into 429s
  */
 export class RateLimiter {
-  private requestQueue: number[] = [];
-  private lastRequestTime: number = 0;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private refillPerMs: number;
+  // Server side budget: requests left until the window resets
+  private limit: number;
+  private remaining: number;
+  private resetAt: number = 0;
+  private blockedUntil: number = 0;
   private consecutiveErrors: number = 0;
 
-  constructor(private config: RateLimitConfig) {}
+  constructor(private config: RateLimitConfig) {
+    this.limit = config.maxRequests;
+    this.remaining = config.maxRequests;
+    this.tokens = config.burst;
+    this.refillPerMs = config.maxRequests / config.timeWindow;
+  }
 
   /**
-   * Check and enforce rate limiting
-   * @param forceDelay Force a delay even if rate limit not exceeded
+   * Wait for a token, then take it
+   * Stops waiting without taking one once the signal aborts
    */
-  async checkRateLimit(forceDelay: boolean = false): Promise<void> {
-    const now = Date.now();
-    
-    // Remove old requests from queue
-    this.requestQueue = this.requestQueue.filter(
-      timestamp => now - timestamp < this.config.timeWindow
-    );
-
-    // Calculate base delay based on consecutive errors
-    const baseDelay = Math.min(
-      this.config.maxBackoffTime,
-      this.config.minWaitTime * Math.pow(this.config.backoffFactor, this.consecutiveErrors)
-    );
-
-    // Add jitter to prevent thundering herd
-    const jitter = Math.random() * this.config.jitterMax;
-    const totalDelay = baseDelay + jitter;
-
-    if (forceDelay || this.requestQueue.length >= this.config.maxRequests) {
-      console.log(`Rate limit reached, waiting ${Math.round(totalDelay)}ms`);
-      await new Promise(resolve => setTimeout(resolve, totalDelay));
-      return this.checkRateLimit(false);
+  async checkRateLimit(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      const now = Date.now();
+      this.refill(now);
+
+      // A new window restores the full budget
+      if (this.resetAt > 0 && now >= this.resetAt) {
+        this.remaining = this.limit;
+        this.resetAt = 0;
+        this.adapt(now);
+      }
+
+      let waitTime = 0;
+      if (now < this.blockedUntil) {
+        waitTime = this.blockedUntil - now;
+      } else if (this.remaining <= 0) {
+        // Without a reset time from the server, assume a fresh window from now
+        if (this.resetAt <= now) {
+          this.resetAt = now + this.config.timeWindow;
+        }
+        waitTime = this.resetAt - now;
+        console.log(`[RateLimiter] Budget exhausted, waiting ${Math.round(waitTime)}ms for the window to reset`);
+      } else if (this.tokens < 1) {
+        waitTime = (1 - this.tokens) / this.refillPerMs;
+      } else {
+        this.tokens -= 1;
+        this.remaining -= 1;
+        return;
+      }
+
+      await delay(waitTime + Math.random() * this.config.jitterMax, signal);
     }
+  }
 
-    // Ensure minimum time between requests
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.config.minWaitTime) {
-      const waitTime = this.config.minWaitTime - timeSinceLastRequest + jitter;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  /**
+   * Adopt the budget reported by the server
+   * @param headers Response headers, with ratelimit-limit, ratelimit-remaining and ratelimit-reset
+   */
+  updateFromHeaders(headers?: Record<string, string>): void {
+    const limit = parseInt(headers?.['ratelimit-limit'] ?? '', 10);
+    const remaining = parseInt(headers?.['ratelimit-remaining'] ?? '', 10);
+    const reset = parseInt(headers?.['ratelimit-reset'] ?? '', 10);
+
+    if (isNaN(remaining)) {
+      return;
     }
 
-    this.requestQueue.push(now);
-    this.lastRequestTime = now;
+    if (!isNaN(limit) && limit > 0) {
+      this.limit = limit;
+    }
+    this.remaining = remaining;
+    // ratelimit-reset is a unix timestamp in seconds
+    this.resetAt = isNaN(reset) ? 0 : reset * 1000;
+    this.adapt(Date.now());
   }
 
   /**
    * Handle rate limit errors and adjust backoff strategy
-   * @param error The error encountered
+   * @param retryAfter Wait in ms requested by the server, if it sent one
    * @returns Recommended wait time
    */
-  handleRateLimitError(error: any): number {
+  handleRateLimitError(retryAfter?: number): number {
     this.consecutiveErrors++;
-    
-    // Extract retry-after header if available
-    const retryAfter = error.response?.headers?.get('Retry-After');
-    
-    return retryAfter 
-      ? parseInt(retryAfter) * 1000 
+
+    const waitTime = retryAfter !== undefined
+      ? retryAfter
       : Math.min(
           this.config.maxBackoffTime,
-          this.config.minWaitTime * Math.pow(this.config.backoffFactor, this.consecutiveErrors)
+          this.config.baseBackoffTime * Math.pow(this.config.backoffFactor, this.consecutiveErrors)
         );
+    this.blockedUntil = Date.now() + waitTime;
+    return waitTime;
   }
 
   /**
@@ -75,4 +131,38 @@ export class RateLimiter {
   resetErrorCount(): void {
     this.consecutiveErrors = 0;
   }
+
+  /**
+   * Requests left in the current window; none while backing off after an error
+   */
+  getRemaining(): number {
+    return Date.now() < this.blockedUntil ? 0 : Math.max(0, this.remaining);
+  }
+
+  /**
+   * Current budget and pace
+   */
+  getBudget(): RateLimitBudget {
+    const now = Date.now();
+    return {
+      remaining: this.getRemaining(),
+      limit: this.limit,
+      resetAt: this.resetAt > now ? new Date(this.resetAt).toISOString() : null,
+      requestsPerMinute: Math.round(this.refillPerMs * 60 * 1000)
+    };
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.config.burst, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Pace the refill to spend the remaining budget evenly until the window resets
+   */
+  private adapt(now: number): void {
+    this.refill(now);
+    const timeLeft = this.resetAt > now ? this.resetAt - now : this.config.timeWindow;
+    this.refillPerMs = Math.max(this.remaining, 1) / timeLeft;
+  }
 }
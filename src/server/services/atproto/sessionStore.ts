@@ -0,0 +1,113 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { AtpSessionData } from '@atproto/api';
+import BlueskySession from '../../models/BlueskySession';
+import { SESSION_ENCRYPTION_KEY } from './config';
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Session Store
+ * Keeps the Bluesky login session in Mongo, encrypted with SESSION_ENCRYPTION_KEY
+ * Without a key nothing is stored and every cold start logs in again
+ */
+class SessionStore {
+  private key: Buffer | null = SESSION_ENCRYPTION_KEY
+    ? createHash('sha256').update(SESSION_ENCRYPTION_KEY).digest()
+    : null;
+
+  /**
+   * Whether sessions can be stored
+   */
+  isEnabled(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Load the stored session for an account
+   * @param identifier Account handle or email used to log in
+   * @param service PDS service URL
+   */
+  async load(identifier: string, service: string): Promise<AtpSessionData | null> {
+    if (!this.key) {
+      return null;
+    }
+
+    try {
+      const stored = await BlueskySession.findOne({ identifier, service });
+      if (!stored) {
+        console.log(`[SessionStore] No stored session for ${identifier}`);
+        return null;
+      }
+
+      const session = JSON.parse(this.decrypt(stored.data)) as AtpSessionData;
+      console.log(`[SessionStore] Loaded session for ${identifier}`);
+      console.log(`- DID: ${session.did}`);
+      console.log(`- Stored: ${stored.updatedAt.toISOString()}`);
+      return session;
+    } catch (error) {
+      // A changed key or a corrupt record just means logging in again
+      console.error(`[SessionStore] Error loading session for ${identifier}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a new or refreshed session
+   * @param identifier Account handle or email used to log in
+   * @param service PDS service URL
+   * @param session Session tokens from the agent
+   */
+  async save(identifier: string, service: string, session: AtpSessionData): Promise<void> {
+    if (!this.key) {
+      return;
+    }
+
+    try {
+      await BlueskySession.findOneAndUpdate(
+        { identifier, service },
+        { did: session.did, data: this.encrypt(JSON.stringify(session)) },
+        { upsert: true }
+      );
+      console.log(`[SessionStore] Saved session for ${identifier}`);
+    } catch (error) {
+      console.error(`[SessionStore] Error saving session for ${identifier}:`, error);
+    }
+  }
+
+  /**
+   * Remove a session that can no longer be refreshed
+   * @param identifier Account handle or email used to log in
+   * @param service PDS service URL
+   */
+  async clear(identifier: string, service: string): Promise<void> {
+    if (!this.key) {
+      return;
+    }
+
+    try {
+      await BlueskySession.deleteOne({ identifier, service });
+      console.log(`[SessionStore] Cleared session for ${identifier}`);
+    } catch (error) {
+      console.error(`[SessionStore] Error clearing session for ${identifier}:`, error);
+    }
+  }
+
+  private encrypt(text: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, this.key!, iv);
+    const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+  }
+
+  private decrypt(data: string): string {
+    const [iv, tag, ciphertext] = data.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv(CIPHER, this.key!, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
+
+// Create and export singleton instance
+const sessionStore = new SessionStore();
+export default sessionStore;
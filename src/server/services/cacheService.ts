@@ -3,7 +3,9 @@ import {
   ConnectionData, 
   NetworkAnalysisResult, 
   CacheOptions,
-  ConnectionType
+  ConnectionType,
+  BridgeAnalysis,
+  NetworkData
 } from '../../shared/types';
 import { 
   UserProfileCache,
@@ -15,11 +17,30 @@ import {
   UserProfileCacheDocument,
   ConnectionCacheDocument,
   NetworkAnalysisDocument,
+  StoredBridgeAnalysis,
   GenericCache
 } from '../models/Cache';
+import { ConnectionListCheckpoint } from '../models/Job';
 import atprotoService from './atproto/index';
 import { requestQueue } from '../utils/requestQueue';
-import { BskyProfile, BskyFollower } from './atproto/interfaces';
+import { BskyProfile, BskyFollower, FollowPage } from './atproto/interfaces';
+
+// What we knew about a follow list when it was last stored completely
+interface ConnectionListMeta {
+  expectedCount: number; // followersCount or followsCount reported by the profile
+  listedCount: number; // entries actually returned by the API (deleted accounts are counted but not listed)
+}
+
+export interface ConnectionRefreshResult {
+  connections: ConnectionData[];
+  fetched: 'none' | 'incremental' | 'full';
+}
+
+// Lets a full crawl of a follow list continue where an interrupted job left it
+export interface ConnectionCrawlCheckpoint {
+  resumeFrom?: ConnectionListCheckpoint;
+  save: (checkpoint: ConnectionListCheckpoint | null) => Promise<void>;
+}
 
 class CacheService {
   /**
@@ -124,6 +145,7 @@ class CacheService {
       handle: profile.handle,
       displayName: profile.displayName || profile.handle,
       avatar: profile.avatar || '',
+      description: profile.description || '',
       followersCount: profile.followersCount,
       followingCount: profile.followsCount,
       postsCount: profile.postsCount,
@@ -175,7 +197,186 @@ class CacheService {
 
     console.log(`[CacheService] Fetched ${connections.length} ${type}s`);
 
-    // Process and cache connections
+    const connectionData = this.toConnectionData(userId, type, connections);
+    await this.storeConnections(userId, type, connectionData, options.duration, true);
+
+    console.log(`[CacheService] Updated cache for ${connectionData.length} ${type}s`);
+    return connectionData;
+  }
+
+  /**
+   * Refresh a follower or following list against the cache
+   * Lists whose count did not change since the last fetch are served from the cache.
+   * Otherwise pages are fetched newest first until an already cached account shows up;
+   * if the new accounts don't explain the change in count (someone was unfollowed),
+   * the whole list is fetched again.
+   * @param did Account DID
+   * @param type List to refresh
+   * @param expectedCount Current followersCount or followsCount from the account's profile
+   * @param checkpoint Where to resume an interrupted full fetch, and where to record its progress
+   */
+  async refreshUserConnections(
+    did: string,
+    type: 'follower' | 'following',
+    expectedCount: number,
+    checkpoint?: ConnectionCrawlCheckpoint
+  ): Promise<ConnectionRefreshResult> {
+    console.log(`[CacheService] Refreshing ${type}s for ${did}`);
+    console.log(`- Expected count: ${expectedCount}`);
+
+    if (checkpoint?.resumeFrom) {
+      return this.crawlConnections(did, type, expectedCount, checkpoint);
+    }
+
+    const metaKey = `${type}-meta:${did}`;
+    const [meta, cached] = await Promise.all([
+      this.get<ConnectionListMeta>(metaKey),
+      ConnectionCache.find({ userId: did, 'connectionData.type': type })
+    ]);
+    const cachedData = cached.map(c => c.connectionData);
+
+    // The cache is only usable if it still holds the complete list we stored
+    const isComplete = !!meta && cachedData.length === meta.listedCount;
+    console.log(`- Cached: ${cachedData.length}`);
+    console.log(`- Complete: ${isComplete}`);
+
+    if (isComplete && meta!.expectedCount === expectedCount) {
+      console.log(`[CacheService] ${type} count unchanged, reusing cached list`);
+      await this.extendConnections(did, type);
+      return { connections: cachedData, fetched: 'none' };
+    }
+
+    if (isComplete) {
+      const cachedIds = new Set(cachedData.map(c => c.connectionId));
+      const newConnections: BskyFollower[] = [];
+      let reachedCache = false;
+      let cursor: string | undefined;
+
+      do {
+        const page = await requestQueue.queueRequest(() =>
+          type === 'follower'
+            ? atprotoService.getFollowersPage(did, cursor)
+            : atprotoService.getFollowingPage(did, cursor)
+        ) as FollowPage;
+
+        for (const connection of page.items) {
+          if (cachedIds.has(connection.did)) {
+            reachedCache = true;
+            break;
+          }
+          newConnections.push(connection);
+        }
+        cursor = page.cursor;
+      } while (!reachedCache && cursor);
+
+      const listedCount = meta!.listedCount + newConnections.length;
+      console.log(`[CacheService] Found ${newConnections.length} new ${type}s`);
+      console.log(`- Reached cache: ${reachedCache}`);
+
+      if (!reachedCache) {
+        // Nothing in the list was cached: what we fetched is the whole list
+        const connectionData = this.toConnectionData(did, type, newConnections);
+        await this.storeConnections(did, type, connectionData, CACHE_DURATIONS.LONG_TERM, true);
+        await this.set<ConnectionListMeta>(metaKey, { expectedCount, listedCount: connectionData.length }, { duration: CACHE_DURATIONS.LONG_TERM });
+        return { connections: connectionData, fetched: 'full' };
+      }
+
+      if (listedCount - meta!.listedCount === expectedCount - meta!.expectedCount) {
+        const connectionData = this.toConnectionData(did, type, newConnections);
+        await this.storeConnections(did, type, connectionData, CACHE_DURATIONS.LONG_TERM, false);
+        await this.extendConnections(did, type);
+        await this.set<ConnectionListMeta>(metaKey, { expectedCount, listedCount }, { duration: CACHE_DURATIONS.LONG_TERM });
+        return { connections: [...connectionData, ...cachedData], fetched: 'incremental' };
+      }
+
+      console.log(`[CacheService] New ${type}s don't account for the count change, fetching full list`);
+    }
+
+    return this.crawlConnections(did, type, expectedCount, checkpoint);
+  }
+
+  /**
+   * Fetch a complete follow list page by page, storing each page as it arrives
+   * After every page the cursor is handed to the checkpoint, so an interrupted crawl
+   * can pick up from the last stored page instead of the first one
+   * @param did Account DID
+   * @param type List to fetch
+   * @param expectedCount Current followersCount or followsCount from the account's profile
+   * @param checkpoint Where to resume, and where to record progress
+   */
+  private async crawlConnections(
+    did: string,
+    type: 'follower' | 'following',
+    expectedCount: number,
+    checkpoint?: ConnectionCrawlCheckpoint
+  ): Promise<ConnectionRefreshResult> {
+    const metaKey = `${type}-meta:${did}`;
+    const resumeFrom = checkpoint?.resumeFrom;
+    let cursor = resumeFrom?.cursor;
+    let fetched = resumeFrom?.fetched ?? 0;
+
+    if (resumeFrom) {
+      console.log(`[CacheService] Resuming ${type}s crawl for ${did}`);
+      console.log(`- Already fetched: ${fetched}`);
+    } else {
+      console.log(`[CacheService] Fetching all ${type}s for ${did}`);
+      // The list is incomplete until the last page is stored
+      await GenericCache.deleteOne({ _id: metaKey });
+    }
+
+    do {
+      const page = await requestQueue.queueRequest(() =>
+        type === 'follower'
+          ? atprotoService.getFollowersPage(did, cursor)
+          : atprotoService.getFollowingPage(did, cursor)
+      ) as FollowPage;
+
+      const connectionData = this.toConnectionData(did, type, page.items);
+      // The first page of a fresh crawl replaces whatever was cached before
+      await this.storeConnections(did, type, connectionData, CACHE_DURATIONS.LONG_TERM, !cursor);
+      fetched += connectionData.length;
+      cursor = page.cursor;
+
+      if (cursor && checkpoint) {
+        await checkpoint.save({ cursor, fetched });
+      }
+    } while (cursor);
+
+    const cached = await ConnectionCache.find({ userId: did, 'connectionData.type': type });
+    const connections = cached.map(c => c.connectionData);
+    await this.set<ConnectionListMeta>(metaKey, { expectedCount, listedCount: connections.length }, { duration: CACHE_DURATIONS.LONG_TERM });
+    await checkpoint?.save(null);
+
+    console.log(`[CacheService] Fetched ${connections.length} ${type}s for ${did}`);
+    return { connections, fetched: 'full' };
+  }
+
+  /**
+   * Cached follow list, if the last fetch stored it completely
+   * @param did Account DID
+   * @param type List to read
+   * @returns The cached list, or null if it is missing or only partly cached
+   */
+  async getCompleteConnections(did: string, type: 'follower' | 'following'): Promise<ConnectionData[] | null> {
+    const [meta, cached] = await Promise.all([
+      this.get<ConnectionListMeta>(`${type}-meta:${did}`),
+      ConnectionCache.find({ userId: did, 'connectionData.type': type })
+    ]);
+
+    if (!meta || cached.length !== meta.listedCount) {
+      return null;
+    }
+    return cached.map(c => c.connectionData);
+  }
+
+  /**
+   * Convert API follow list entries to connection data, skipping entries without a DID
+   */
+  private toConnectionData(
+    userId: string,
+    type: 'follower' | 'following',
+    connections: BskyFollower[]
+  ): ConnectionData[] {
     const connectionData: ConnectionData[] = [];
     for (const connection of connections) {
       if (!connection?.did) {
@@ -188,36 +389,70 @@ class CacheService {
         handle: connection.handle,
         displayName: connection.displayName || connection.handle,
         avatar: connection.avatar || '',
+        description: connection.description || '',
         followersCount: connection.followersCount || 0,
         followingCount: connection.followingCount || 0,
         postsCount: connection.postsCount || 0,
         indexedAt: new Date().toISOString(),
       };
 
-      const data: ConnectionData = {
+      connectionData.push({
         userId,
         connectionId: connection.did,
         type,
         profile,
-      };
+      });
+    }
+    return connectionData;
+  }
 
-      // Update cache
-      await ConnectionCache.findOneAndUpdate(
-        { _id: `${userId}:${connection.did}` },
-        {
-          userId,
-          connectionData: data,
-          lastUpdated: new Date(),
-          expiresAt: createCacheExpiration(options.duration),
-        },
-        { upsert: true, new: true }
-      );
+  /**
+   * Write connections to the cache in one bulk operation
+   * With replace, every cached entry of this type is removed first, so accounts that left
+   * the list (and entries stored under the old id format without the type) disappear
+   */
+  private async storeConnections(
+    userId: string,
+    type: 'follower' | 'following',
+    connections: ConnectionData[],
+    duration: number,
+    replace: boolean
+  ): Promise<void> {
+    if (replace) {
+      const removed = await ConnectionCache.deleteMany({ userId, 'connectionData.type': type });
+      console.log(`[CacheService] Removed ${removed.deletedCount} cached ${type}s for ${userId}`);
+    }
 
-      connectionData.push(data);
+    if (connections.length === 0) {
+      return;
     }
 
-    console.log(`[CacheService] Updated cache for ${connectionData.length} ${type}s`);
-    return connectionData;
+    const lastUpdated = new Date();
+    const expiresAt = createCacheExpiration(duration);
+    await ConnectionCache.bulkWrite(connections.map(data => ({
+      updateOne: {
+        filter: { _id: `${userId}:${type}:${data.connectionId}` },
+        update: {
+          $set: {
+            userId,
+            connectionData: data,
+            lastUpdated,
+            expiresAt,
+          }
+        },
+        upsert: true
+      }
+    })), { ordered: false });
+  }
+
+  /**
+   * Keep a still accurate cached list alive for another full cache period
+   */
+  private async extendConnections(userId: string, type: 'follower' | 'following'): Promise<void> {
+    await ConnectionCache.updateMany(
+      { userId, 'connectionData.type': type },
+      { $set: { expiresAt: createCacheExpiration(CACHE_DURATIONS.LONG_TERM) } }
+    );
   }
 
   /**
@@ -264,6 +499,7 @@ class CacheService {
       { userId: analysis.userId },
       {
         ...analysis,
+        bridges: analysis.bridges && this.toStoredBridges(analysis.bridges, analysis.graph),
         lastUpdated: new Date(),
         expiresAt: createCacheExpiration(options.duration),
       },
@@ -325,16 +561,69 @@ class CacheService {
       handle: doc.handle,
       stats: doc.stats,
       communities: doc.communities,
+      modularity: doc.modularity,
+      hierarchy: doc.hierarchy,
+      algorithm: doc.algorithm,
+      resolution: doc.resolution,
+      seed: doc.seed,
+      centrality: doc.centrality,
+      bridges: doc.bridges && this.fromStoredBridges(doc.bridges, doc.graph),
+      graph: doc.graph,
       lastUpdated: doc.lastUpdated.toISOString(),
     };
   }
 
+  /**
+   * Store inter-community edges as references into the graph's edges, which already hold them
+   */
+  private toStoredBridges(bridges: BridgeAnalysis, graph?: NetworkData): StoredBridgeAnalysis {
+    const edgeIndex = new Map((graph?.edges || []).map((edge, index) => [`${edge.source}>${edge.target}`, index]));
+
+    return {
+      nodes: bridges.nodes,
+      bridgeNodes: bridges.bridgeNodes,
+      interCommunityEdges: bridges.interCommunityEdges
+        .filter(edge => edgeIndex.has(`${edge.source}>${edge.target}`))
+        .map(edge => ({
+          edge: edgeIndex.get(`${edge.source}>${edge.target}`)!,
+          sourceCommunity: edge.sourceCommunity,
+          targetCommunity: edge.targetCommunity
+        }))
+    };
+  }
+
+  /**
+   * Resolve stored inter-community edge references against the graph's edges
+   */
+  private fromStoredBridges(bridges: StoredBridgeAnalysis, graph?: NetworkData): BridgeAnalysis {
+    const edges = graph?.edges || [];
+
+    return {
+      nodes: bridges.nodes,
+      bridgeNodes: bridges.bridgeNodes,
+      interCommunityEdges: (bridges.interCommunityEdges || [])
+        .filter(({ edge }) => typeof edge === 'number' && edges[edge])
+        .map(({ edge, sourceCommunity, targetCommunity }) => ({
+          source: edges[edge].source,
+          target: edges[edge].target,
+          type: edges[edge].type,
+          sourceCommunity,
+          targetCommunity
+        }))
+    };
+  }
+
   /**
    * Resolve handle to DID with caching and rate limiting
    */
   private async resolveHandleToDid(handle: string): Promise<string> {
     console.log(`[CacheService] Resolving handle to DID: ${handle}`);
-    
+
+    // Callers that already know the DID can pass it straight through
+    if (handle.startsWith('did:')) {
+      return handle;
+    }
+
     const cached = await UserProfileCache.findOne({ handle });
     if (cached) {
       console.log(`[CacheService] Found cached DID for ${handle}: ${cached._id}`);
@@ -0,0 +1,242 @@
+import { NetworkData, NodeCentrality } from '../../shared/types';
+
+// PageRank settings
+const PAGERANK_DAMPING = 0.85;
+
+// Power iteration limits shared by PageRank and eigenvector centrality
+const MAX_ITERATIONS = 100;
+const CONVERGENCE_TOLERANCE = 1e-8;
+
+/**
+ * Graph used for centrality, with nodes as dense indices
+ * Follows point from follower to followed account; mutual edges point both ways
+ */
+interface CentralityGraph {
+  nodeIds: string[];
+  handles: string[];
+  outLinks: Set<number>[];
+  neighbors: Set<number>[]; // undirected view used by path-based metrics
+}
+
+/**
+ * Centrality Processor Service
+ * Computes per-node importance scores for a network graph
+ */
+class CentralityProcessor {
+  /**
+   * Build directed and undirected adjacency from the network data
+   * Self edges and edges to unknown nodes are ignored
+   */
+  private buildGraph(graph: NetworkData): CentralityGraph {
+    const nodeIds: string[] = [];
+    const handles: string[] = [];
+    const indexById = new Map<string, number>();
+
+    graph.nodes.forEach(node => {
+      if (!node?.id || indexById.has(node.id)) {
+        return;
+      }
+      indexById.set(node.id, nodeIds.length);
+      nodeIds.push(node.id);
+      handles.push(node.data?.handle || node.id);
+    });
+
+    const outLinks = nodeIds.map(() => new Set<number>());
+    const neighbors = nodeIds.map(() => new Set<number>());
+
+    graph.edges.forEach(edge => {
+      const source = indexById.get(edge?.source);
+      const target = indexById.get(edge?.target);
+      if (source === undefined || target === undefined || source === target) {
+        return;
+      }
+
+      outLinks[source].add(target);
+      if (edge.type === 'mutual') {
+        outLinks[target].add(source);
+      }
+      neighbors[source].add(target);
+      neighbors[target].add(source);
+    });
+
+    return { nodeIds, handles, outLinks, neighbors };
+  }
+
+  /**
+   * PageRank over the directed follow graph
+   * Rank of accounts without outgoing links is spread evenly over all nodes
+   */
+  private calculatePageRank(graph: CentralityGraph): number[] {
+    const nodeCount = graph.nodeIds.length;
+    let ranks = new Array<number>(nodeCount).fill(1 / nodeCount);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const next = new Array<number>(nodeCount).fill((1 - PAGERANK_DAMPING) / nodeCount);
+      let danglingRank = 0;
+
+      graph.outLinks.forEach((targets, node) => {
+        if (targets.size === 0) {
+          danglingRank += ranks[node];
+          return;
+        }
+        const share = PAGERANK_DAMPING * ranks[node] / targets.size;
+        targets.forEach(target => {
+          next[target] += share;
+        });
+      });
+
+      let change = 0;
+      next.forEach((rank, node) => {
+        next[node] = rank + PAGERANK_DAMPING * danglingRank / nodeCount;
+        change += Math.abs(next[node] - ranks[node]);
+      });
+
+      ranks = next;
+      if (change < CONVERGENCE_TOLERANCE) {
+        break;
+      }
+    }
+
+    return ranks;
+  }
+
+  /**
+   * Betweenness (Brandes) and closeness from one BFS per node on the undirected graph
+   * Betweenness is normalized to [0, 1]; closeness uses the Wasserman-Faust variant
+   * so nodes in small components are not ranked above well-connected ones
+   */
+  private calculatePathMetrics(graph: CentralityGraph): { betweenness: number[]; closeness: number[] } {
+    const nodeCount = graph.nodeIds.length;
+    const betweenness = new Array<number>(nodeCount).fill(0);
+    const closeness = new Array<number>(nodeCount).fill(0);
+
+    const distances = new Array<number>(nodeCount);
+    const pathCounts = new Array<number>(nodeCount);
+    const dependencies = new Array<number>(nodeCount);
+    const predecessors: number[][] = graph.nodeIds.map(() => []);
+
+    for (let source = 0; source < nodeCount; source++) {
+      distances.fill(-1);
+      pathCounts.fill(0);
+      dependencies.fill(0);
+      predecessors.forEach(list => { list.length = 0; });
+
+      // Breadth-first search, counting shortest paths
+      const order: number[] = [source];
+      distances[source] = 0;
+      pathCounts[source] = 1;
+      let distanceSum = 0;
+
+      for (let head = 0; head < order.length; head++) {
+        const node = order[head];
+        distanceSum += distances[node];
+
+        graph.neighbors[node].forEach(neighbor => {
+          if (distances[neighbor] < 0) {
+            distances[neighbor] = distances[node] + 1;
+            order.push(neighbor);
+          }
+          if (distances[neighbor] === distances[node] + 1) {
+            pathCounts[neighbor] += pathCounts[node];
+            predecessors[neighbor].push(node);
+          }
+        });
+      }
+
+      const reachable = order.length - 1;
+      if (reachable > 0 && distanceSum > 0) {
+        closeness[source] = (reachable / distanceSum) * (reachable / Math.max(nodeCount - 1, 1));
+      }
+
+      // Accumulate dependencies in order of decreasing distance
+      for (let index = order.length - 1; index > 0; index--) {
+        const node = order[index];
+        predecessors[node].forEach(predecessor => {
+          dependencies[predecessor] += pathCounts[predecessor] / pathCounts[node] * (1 + dependencies[node]);
+        });
+        betweenness[node] += dependencies[node];
+      }
+    }
+
+    // Every undirected pair was counted from both ends
+    const pairCount = (nodeCount - 1) * (nodeCount - 2);
+    betweenness.forEach((value, node) => {
+      betweenness[node] = pairCount > 0 ? value / pairCount : 0;
+    });
+
+    return { betweenness, closeness };
+  }
+
+  /**
+   * Eigenvector centrality by power iteration on the undirected graph
+   * Iterates on A + I, which has the same leading eigenvector but does not
+   * oscillate on bipartite graphs such as a star around the analysed user
+   */
+  private calculateEigenvector(graph: CentralityGraph): number[] {
+    const nodeCount = graph.nodeIds.length;
+    let scores = new Array<number>(nodeCount).fill(1 / Math.sqrt(nodeCount));
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const next = scores.slice();
+      graph.neighbors.forEach((neighbors, node) => {
+        neighbors.forEach(neighbor => {
+          next[node] += scores[neighbor];
+        });
+      });
+
+      const norm = Math.sqrt(next.reduce((sum, value) => sum + value * value, 0));
+      if (norm === 0) {
+        return new Array<number>(nodeCount).fill(0);
+      }
+
+      let change = 0;
+      next.forEach((value, node) => {
+        next[node] = value / norm;
+        change += Math.abs(next[node] - scores[node]);
+      });
+
+      scores = next;
+      if (change < CONVERGENCE_TOLERANCE) {
+        break;
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Calculate PageRank, betweenness, closeness and eigenvector centrality for every node
+   */
+  calculateCentrality(graph: NetworkData): NodeCentrality[] {
+    if (!graph?.nodes?.length) {
+      console.log('No nodes in graph, returning empty centrality');
+      return [];
+    }
+
+    console.log('Calculating centrality for graph with:', {
+      nodes: graph.nodes.length,
+      edges: graph.edges?.length || 0
+    });
+
+    const centralityGraph = this.buildGraph({ nodes: graph.nodes, edges: graph.edges || [] });
+    const pageRank = this.calculatePageRank(centralityGraph);
+    const { betweenness, closeness } = this.calculatePathMetrics(centralityGraph);
+    const eigenvector = this.calculateEigenvector(centralityGraph);
+
+    const centrality = centralityGraph.nodeIds.map((id, node) => ({
+      id,
+      handle: centralityGraph.handles[node],
+      pageRank: pageRank[node],
+      betweenness: betweenness[node],
+      closeness: closeness[node],
+      eigenvector: eigenvector[node]
+    }));
+
+    console.log('Calculated centrality for', centrality.length, 'nodes');
+    return centrality;
+  }
+}
+
+// Create and export singleton instance
+const centralityProcessor = new CentralityProcessor();
+export default centralityProcessor;
@@ -0,0 +1,107 @@
+import { Community, UserProfile } from '../../shared/types';
+
+// Label settings
+const MAX_KEYWORDS = 5;
+const LABEL_KEYWORDS = 3;
+const MIN_TERM_LENGTH = 3;
+
+// Words too common in bios to say anything about a community
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'yours', 'all', 'any', 'can', 'her', 'his',
+  'him', 'she', 'they', 'them', 'their', 'our', 'ours', 'was', 'were', 'one', 'out', 'get', 'has', 'had',
+  'have', 'how', 'who', 'what', 'when', 'where', 'why', 'which', 'with', 'from', 'this', 'that', 'these',
+  'those', 'there', 'here', 'into', 'about', 'over', 'also', 'just', 'than', 'then', 'too', 'very',
+  'will', 'would', 'should', 'could', 'been', 'being', 'its', 'it\'s', 'i\'m', 'im', 'me', 'my', 'mine',
+  'myself', 'some', 'more', 'most', 'other', 'such', 'only', 'own', 'same', 'now', 'off', 'per', 'via',
+  'etc', 'like', 'things', 'thing', 'stuff', 'lot', 'lots', 'much', 'many', 'make', 'making', 'made',
+  'bsky', 'bluesky', 'social', 'app', 'com', 'www', 'http', 'https', 'account', 'posts', 'post',
+  'she/her', 'he/him', 'they/them', 'personal', 'views', 'opinions', 'dms', 'open', 'follow'
+]);
+
+/**
+ * Community Labeler Service
+ * Names communities after the keywords that set their members' bios apart from the rest of the network
+ */
+class CommunityLabeler {
+  /**
+   * Split a bio and display name into lowercase terms
+   * Links, mentions, numbers, short words and stop words are dropped
+   */
+  private tokenize(text: string): string[] {
+    const cleaned = text
+      .toLowerCase()
+      .replace(/https?:\/\/\S+/g, ' ')
+      .replace(/@\S+/g, ' ');
+
+    return (cleaned.match(/[\p{L}\p{N}][\p{L}\p{N}'/+#-]*/gu) || [])
+      .map(term => term.replace(/['/+#-]+$/, ''))
+      .filter(term =>
+        term.length >= MIN_TERM_LENGTH &&
+        !/^\d+$/.test(term) &&
+        !STOP_WORDS.has(term)
+      );
+  }
+
+  /**
+   * Add a label and keywords to every community
+   * A term scores by the share of members using it times its inverse document
+   * frequency over the whole network, so terms shared by everyone rank low.
+   * Terms used by a single member only count in communities of one.
+   */
+  labelCommunities(communities: Community[], profiles: Pick<UserProfile, 'did' | 'displayName' | 'description'>[]): Community[] {
+    if (!communities?.length) {
+      return communities;
+    }
+
+    // One document of distinct terms per account
+    const termsByMember = new Map<string, Set<string>>();
+    profiles.forEach(profile => {
+      if (!profile?.did) return;
+      const text = `${profile.displayName || ''} ${profile.description || ''}`;
+      termsByMember.set(profile.did, new Set(this.tokenize(text)));
+    });
+
+    const documentCount = termsByMember.size;
+    const documentFrequency = new Map<string, number>();
+    termsByMember.forEach(terms => {
+      terms.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    console.log('Labelling communities with:', {
+      communities: communities.length,
+      documents: documentCount,
+      vocabulary: documentFrequency.size
+    });
+
+    return communities.map(community => {
+      const memberTermCounts = new Map<string, number>();
+      community.members.forEach(member => {
+        termsByMember.get(member)?.forEach(term => {
+          memberTermCounts.set(term, (memberTermCounts.get(term) || 0) + 1);
+        });
+      });
+
+      const minMembers = community.size > 1 ? 2 : 1;
+      const keywords = Array.from(memberTermCounts.entries())
+        .filter(([, count]) => count >= minMembers)
+        .map(([term, count]) => ({
+          term,
+          score: (count / community.size) * Math.log(documentCount / documentFrequency.get(term)!)
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+        .slice(0, MAX_KEYWORDS)
+        .map(({ term }) => term);
+
+      return {
+        ...community,
+        label: keywords.length > 0 ? keywords.slice(0, LABEL_KEYWORDS).join(' · ') : undefined,
+        keywords
+      };
+    });
+  }
+}
+
+// Create and export singleton instance
+const communityLabeler = new CommunityLabeler();
+export default communityLabeler;
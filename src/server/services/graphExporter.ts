@@ -0,0 +1,283 @@
+import { NetworkAnalysisResult, BridgeAnalysis, ExportFormat, ExportTable } from '../../shared/types';
+
+// Stored analyses keep inter-community edges as references into the graph, which exports do not need
+type ExportableAnalysis = Pick<
+  NetworkAnalysisResult,
+  'handle' | 'communities' | 'centrality' | 'graph' | 'algorithm' | 'modularity'
+> & { bridges?: Pick<BridgeAnalysis, 'nodes' | 'bridgeNodes'>; lastUpdated: string | Date };
+
+export interface ExportFile {
+  content: string;
+  contentType: string;
+  filename: string;
+}
+
+// Attributes written for every node, in column order
+interface NodeRow {
+  id: string;
+  handle: string;
+  displayName: string;
+  community: string;
+  communityLabel: string;
+  pageRank: number;
+  betweenness: number;
+  closeness: number;
+  eigenvector: number;
+  participation: number;
+  constraint: number;
+  bridge: boolean;
+}
+
+interface EdgeRow {
+  source: string;
+  target: string;
+  type: 'follows' | 'mutual';
+}
+
+const NODE_ATTRIBUTES: { key: Exclude<keyof NodeRow, 'id'>; type: 'string' | 'double' | 'boolean' }[] = [
+  { key: 'handle', type: 'string' },
+  { key: 'displayName', type: 'string' },
+  { key: 'community', type: 'string' },
+  { key: 'communityLabel', type: 'string' },
+  { key: 'pageRank', type: 'double' },
+  { key: 'betweenness', type: 'double' },
+  { key: 'closeness', type: 'double' },
+  { key: 'eigenvector', type: 'double' },
+  { key: 'participation', type: 'double' },
+  { key: 'constraint', type: 'double' },
+  { key: 'bridge', type: 'boolean' }
+];
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Quote a CSV field when needed
+ * Text starting like a formula is prefixed so spreadsheets show it as text
+ */
+function escapeCsv(value: string | number | boolean): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Graph Exporter Service
+ * Serialises an analysis into formats that Gephi, Cytoscape and spreadsheets can open
+ */
+class GraphExporter {
+  /**
+   * Serialise the nodes, edges, communities and metrics of an analysis
+   * @param analysis Analysis with a persisted graph
+   * @param format Output format
+   * @param table Table to write for CSV, which holds one table per file
+   */
+  exportAnalysis(analysis: ExportableAnalysis, format: ExportFormat, table: ExportTable = 'nodes'): ExportFile {
+    console.log(`[GraphExporter] Exporting ${analysis.handle} as ${format}${format === 'csv' ? ` (${table})` : ''}`);
+
+    const nodes = this.buildNodeRows(analysis);
+    const edges: EdgeRow[] = (analysis.graph?.edges || []).map(({ source, target, type }) => ({ source, target, type }));
+    // Imported networks are named after the uploaded file, which may hold any characters
+    const basename = `${analysis.handle.replace(/[^\w.-]+/g, '_')}-network`;
+
+    console.log(`- Nodes: ${nodes.length}`);
+    console.log(`- Edges: ${edges.length}`);
+
+    switch (format) {
+      case 'graphml':
+        return {
+          content: this.toGraphML(analysis, nodes, edges),
+          contentType: 'application/graphml+xml',
+          filename: `${basename}.graphml`
+        };
+      case 'gexf':
+        return {
+          content: this.toGEXF(analysis, nodes, edges),
+          contentType: 'application/gexf+xml',
+          filename: `${basename}.gexf`
+        };
+      case 'csv':
+        return {
+          content: table === 'edges' ? this.edgesToCsv(edges) : this.nodesToCsv(nodes),
+          contentType: 'text/csv',
+          filename: `${basename}-${table}.csv`
+        };
+      case 'json':
+        return {
+          content: JSON.stringify(this.toJson(analysis, nodes, edges), null, 2),
+          contentType: 'application/json',
+          filename: `${basename}.json`
+        };
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * Join graph nodes with their community, centrality and brokerage
+   */
+  private buildNodeRows(analysis: ExportableAnalysis): NodeRow[] {
+    const communityOf = new Map<string, { id: string; label: string }>();
+    analysis.communities.forEach(community => {
+      community.members.forEach(member => {
+        communityOf.set(member, { id: community.id, label: community.label || '' });
+      });
+    });
+
+    const centralityOf = new Map((analysis.centrality || []).map(node => [node.id, node]));
+    const brokerageOf = new Map((analysis.bridges?.nodes || []).map(node => [node.id, node]));
+    const bridges = new Set(analysis.bridges?.bridgeNodes || []);
+
+    return (analysis.graph?.nodes || []).map(node => {
+      const centrality = centralityOf.get(node.id);
+      const brokerage = brokerageOf.get(node.id);
+      const community = communityOf.get(node.id);
+
+      return {
+        id: node.id,
+        handle: node.data.handle,
+        displayName: node.data.displayName || '',
+        community: community?.id || '',
+        communityLabel: community?.label || '',
+        pageRank: centrality?.pageRank ?? 0,
+        betweenness: centrality?.betweenness ?? 0,
+        closeness: centrality?.closeness ?? 0,
+        eigenvector: centrality?.eigenvector ?? 0,
+        participation: brokerage?.participation ?? 0,
+        constraint: brokerage?.constraint ?? 0,
+        bridge: bridges.has(node.id)
+      };
+    });
+  }
+
+  /**
+   * GraphML document; mutual edges keep their type as an edge attribute
+   */
+  private toGraphML(analysis: ExportableAnalysis, nodes: NodeRow[], edges: EdgeRow[]): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+      ...NODE_ATTRIBUTES.map(({ key, type }) =>
+        `  <key id="${key}" for="node" attr.name="${key}" attr.type="${type}"/>`
+      ),
+      '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+      `  <graph id="${escapeXml(analysis.handle)}" edgedefault="directed">`
+    ];
+
+    nodes.forEach(node => {
+      lines.push(`    <node id="${escapeXml(node.id)}">`);
+      NODE_ATTRIBUTES.forEach(({ key }) => {
+        lines.push(`      <data key="${key}">${escapeXml(String(node[key]))}</data>`);
+      });
+      lines.push('    </node>');
+    });
+
+    edges.forEach((edge, index) => {
+      lines.push(`    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+      lines.push(`      <data key="type">${edge.type}</data>`);
+      lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+  }
+
+  /**
+   * GEXF 1.3 document; mutual edges use the GEXF "mutual" edge type
+   */
+  private toGEXF(analysis: ExportableAnalysis, nodes: NodeRow[], edges: EdgeRow[]): string {
+    const attributes = NODE_ATTRIBUTES.filter(({ key }) => key !== 'displayName');
+    const lastUpdated = new Date(analysis.lastUpdated).toISOString().split('T')[0];
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+      `  <meta lastmodifieddate="${lastUpdated}">`,
+      '    <creator>BlueSky Network Visualizer</creator>',
+      `    <description>Mutual network of @${escapeXml(analysis.handle)}</description>`,
+      '  </meta>',
+      '  <graph defaultedgetype="directed">',
+      '    <attributes class="node">',
+      ...attributes.map(({ key, type }, index) =>
+        `      <attribute id="${index}" title="${key}" type="${type}"/>`
+      ),
+      '    </attributes>',
+      '    <nodes>'
+    ];
+
+    nodes.forEach(node => {
+      lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.displayName || node.handle)}">`);
+      lines.push('        <attvalues>');
+      attributes.forEach(({ key }, index) => {
+        lines.push(`          <attvalue for="${index}" value="${escapeXml(String(node[key]))}"/>`);
+      });
+      lines.push('        </attvalues>');
+      lines.push('      </node>');
+    });
+
+    lines.push('    </nodes>', '    <edges>');
+    edges.forEach((edge, index) => {
+      const type = edge.type === 'mutual' ? ' type="mutual"' : '';
+      lines.push(`      <edge id="${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${type}/>`);
+    });
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Node table with an Id column, as Gephi's spreadsheet import expects
+   */
+  private nodesToCsv(nodes: NodeRow[]): string {
+    const header = ['Id', ...NODE_ATTRIBUTES.map(({ key }) => key)];
+    const rows = nodes.map(node => [node.id, ...NODE_ATTRIBUTES.map(({ key }) => node[key])].map(escapeCsv).join(','));
+    return [header.join(','), ...rows].join('\r\n');
+  }
+
+  /**
+   * Edge table with Source, Target and Type columns, as Gephi's spreadsheet import expects
+   */
+  private edgesToCsv(edges: EdgeRow[]): string {
+    const rows = edges.map(edge => [
+      edge.source,
+      edge.target,
+      edge.type === 'mutual' ? 'Undirected' : 'Directed',
+      edge.type
+    ].map(escapeCsv).join(','));
+    return ['Source,Target,Type,relation', ...rows].join('\r\n');
+  }
+
+  /**
+   * Plain JSON with the same node and edge attributes as the other formats
+   */
+  private toJson(analysis: ExportableAnalysis, nodes: NodeRow[], edges: EdgeRow[]) {
+    return {
+      handle: analysis.handle,
+      lastUpdated: new Date(analysis.lastUpdated).toISOString(),
+      algorithm: analysis.algorithm,
+      modularity: analysis.modularity,
+      communities: analysis.communities.map(({ id, label, keywords, size, members }) => ({
+        id, label, keywords, size, members
+      })),
+      nodes,
+      edges
+    };
+  }
+}
+
+// Create and export singleton instance
+const graphExporter = new GraphExporter();
+export default graphExporter;
@@ -0,0 +1,418 @@
+import { NetworkData, NetworkNode, NetworkEdge, ExportFormat, UserProfile } from '../../shared/types';
+
+// Largest network accepted; detection and betweenness grow quickly with size
+export const MAX_IMPORT_NODES = 5000;
+
+// Custom error class for files that cannot be read as a network
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export interface ImportedNetwork {
+  graph: NetworkData;
+  profiles: Pick<UserProfile, 'did' | 'displayName' | 'description'>[];
+}
+
+// Node attributes as read from a file, before they are mapped onto a user
+type NodeAttributes = Record<string, string>;
+
+interface RawEdge {
+  source: string;
+  target: string;
+  mutual: boolean;
+}
+
+// Attribute names, lowercased, that tools commonly use for these node fields
+const HANDLE_ATTRIBUTES = ['handle', 'username', 'screen_name', 'name', 'label'];
+const DISPLAY_NAME_ATTRIBUTES = ['displayname', 'display_name', 'label', 'name'];
+const DESCRIPTION_ATTRIBUTES = ['description', 'bio'];
+
+/**
+ * Decode XML entities in text or attribute values
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read the attributes of an XML start tag
+ */
+function parseXmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1]] = decodeXml(match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+/**
+ * Find every element with the given name, with its attributes and inner XML
+ */
+function findXmlElements(xml: string, name: string): { attributes: Record<string, string>; body: string }[] {
+  const elements: { attributes: Record<string, string>; body: string }[] = [];
+  const pattern = new RegExp(`<${name}(\\s[^>]*?)?(\\/>|>([\\s\\S]*?)<\\/${name}>)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    elements.push({ attributes: parseXmlAttributes(match[1] || ''), body: match[3] || '' });
+  }
+  return elements;
+}
+
+/**
+ * Delimiter of a CSV file: whichever of comma, semicolon or tab occurs most often
+ * outside quotes on its first line, so delimiters inside later labels are left alone
+ */
+function detectCsvDelimiter(content: string): string {
+  const counts = new Map<string, number>([[',', 0], [';', 0], ['\t', 0]]);
+  let quoted = false;
+
+  for (const char of content.trimStart()) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!quoted && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let delimiter = ',';
+  counts.forEach((count, candidate) => {
+    if (count > counts.get(delimiter)!) {
+      delimiter = candidate;
+    }
+  });
+  return delimiter;
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ * @param delimiter Field delimiter used throughout the file
+ */
+function parseCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Graph Importer Service
+ * Reads networks exported by this app or other tools into our graph shape
+ */
+class GraphImporter {
+  /**
+   * Parse a network file
+   * @param content File contents
+   * @param format File format; CSV files are edge lists
+   */
+  parse(content: string, format: ExportFormat): ImportedNetwork {
+    console.log(`[GraphImporter] Parsing ${format} network (${content.length} characters)`);
+
+    const nodes = new Map<string, NodeAttributes>();
+    const edges: RawEdge[] = [];
+
+    switch (format) {
+      case 'graphml':
+        this.parseGraphML(content, nodes, edges);
+        break;
+      case 'gexf':
+        this.parseGEXF(content, nodes, edges);
+        break;
+      case 'csv':
+        this.parseCsvEdgeList(content, nodes, edges);
+        break;
+      case 'json':
+        this.parseJson(content, nodes, edges);
+        break;
+      default:
+        throw new ImportError(`Unsupported import format: ${format}`);
+    }
+
+    if (nodes.size === 0) {
+      throw new ImportError('The file contains no nodes');
+    }
+    if (nodes.size > MAX_IMPORT_NODES) {
+      throw new ImportError(`The network has ${nodes.size} nodes; at most ${MAX_IMPORT_NODES} can be imported`);
+    }
+
+    const network = this.buildNetwork(nodes, edges);
+    console.log(`[GraphImporter] Parsed network`);
+    console.log(`- Nodes: ${network.graph.nodes.length}`);
+    console.log(`- Edges: ${network.graph.edges.length}`);
+    return network;
+  }
+
+  /**
+   * GraphML: node data keys are resolved to their attribute names
+   */
+  private parseGraphML(content: string, nodes: Map<string, NodeAttributes>, edges: RawEdge[]): void {
+    const keyNames = new Map<string, string>();
+    findXmlElements(content, 'key').forEach(({ attributes }) => {
+      keyNames.set(attributes.id, (attributes['attr.name'] || attributes.id).toLowerCase());
+    });
+
+    const graph = findXmlElements(content, 'graph')[0];
+    if (!graph) {
+      throw new ImportError('No <graph> element found in GraphML file');
+    }
+    const undirected = graph.attributes.edgedefault === 'undirected';
+
+    const readData = (body: string): NodeAttributes => {
+      const data: NodeAttributes = {};
+      findXmlElements(body, 'data').forEach(({ attributes, body: value }) => {
+        const key = attributes.key || '';
+        data[keyNames.get(key) || key.toLowerCase()] = decodeXml(value.trim());
+      });
+      return data;
+    };
+
+    findXmlElements(graph.body, 'node').forEach(({ attributes, body }) => {
+      if (attributes.id) {
+        nodes.set(attributes.id, readData(body));
+      }
+    });
+
+    findXmlElements(graph.body, 'edge').forEach(({ attributes, body }) => {
+      const data = readData(body);
+      const directed = attributes.directed !== undefined ? attributes.directed === 'true' : !undirected;
+      edges.push({
+        source: attributes.source,
+        target: attributes.target,
+        mutual: !directed || data.type === 'mutual'
+      });
+    });
+  }
+
+  /**
+   * GEXF: attribute values are resolved to their attribute titles
+   */
+  private parseGEXF(content: string, nodes: Map<string, NodeAttributes>, edges: RawEdge[]): void {
+    const graph = findXmlElements(content, 'graph')[0];
+    if (!graph) {
+      throw new ImportError('No <graph> element found in GEXF file');
+    }
+    const defaultType = graph.attributes.defaultedgetype || 'undirected';
+
+    const titles = new Map<string, string>();
+    findXmlElements(graph.body, 'attributes')
+      .filter(({ attributes }) => attributes.class === 'node')
+      .forEach(({ body }) => {
+        findXmlElements(body, 'attribute').forEach(({ attributes }) => {
+          titles.set(attributes.id, (attributes.title || attributes.id).toLowerCase());
+        });
+      });
+
+    const nodesBody = findXmlElements(graph.body, 'nodes')[0]?.body || '';
+    findXmlElements(nodesBody, 'node').forEach(({ attributes, body }) => {
+      if (!attributes.id) return;
+
+      const data: NodeAttributes = {};
+      if (attributes.label) {
+        data.label = attributes.label;
+      }
+      findXmlElements(body, 'attvalue').forEach(({ attributes: value }) => {
+        const key = value.for ?? value.id ?? '';
+        data[titles.get(key) || key.toLowerCase()] = value.value ?? '';
+      });
+      nodes.set(attributes.id, data);
+    });
+
+    const edgesBody = findXmlElements(graph.body, 'edges')[0]?.body || '';
+    findXmlElements(edgesBody, 'edge').forEach(({ attributes }) => {
+      const type = attributes.type || defaultType;
+      edges.push({
+        source: attributes.source,
+        target: attributes.target,
+        mutual: type === 'mutual' || type === 'undirected'
+      });
+    });
+  }
+
+  /**
+   * CSV edge list with Source and Target columns, or two unnamed columns
+   * A Type column of "Undirected" or "mutual" marks mutual edges
+   */
+  private parseCsvEdgeList(content: string, nodes: Map<string, NodeAttributes>, edges: RawEdge[]): void {
+    const text = content.replace(/^﻿/, '');
+    const rows = parseCsv(text, detectCsvDelimiter(text));
+    if (rows.length === 0) {
+      throw new ImportError('The CSV file is empty');
+    }
+
+    const header = rows[0].map(name => name.trim().toLowerCase());
+    let sourceColumn = header.indexOf('source');
+    let targetColumn = header.indexOf('target');
+    const typeColumns = ['type', 'relation']
+      .map(name => header.indexOf(name))
+      .filter(column => column >= 0);
+
+    let dataRows = rows.slice(1);
+    if (sourceColumn < 0 || targetColumn < 0) {
+      if (header.includes('id')) {
+        throw new ImportError('This looks like a node table; import the edge table instead');
+      }
+      // No header: the first two columns are source and target
+      sourceColumn = 0;
+      targetColumn = 1;
+      dataRows = rows;
+    }
+
+    dataRows.forEach(row => {
+      const source = row[sourceColumn]?.trim();
+      const target = row[targetColumn]?.trim();
+      if (!source || !target) return;
+
+      nodes.set(source, nodes.get(source) || {});
+      nodes.set(target, nodes.get(target) || {});
+      edges.push({
+        source,
+        target,
+        mutual: typeColumns.some(column => ['undirected', 'mutual'].includes(row[column]?.trim().toLowerCase()))
+      });
+    });
+  }
+
+  /**
+   * JSON from this app's export, or a plain { nodes, edges } graph
+   */
+  private parseJson(content: string, nodes: Map<string, NodeAttributes>, edges: RawEdge[]): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new ImportError('The file is not valid JSON');
+    }
+
+    const graph = parsed?.graph || parsed;
+    if (!Array.isArray(graph?.nodes) || !Array.isArray(graph?.edges)) {
+      throw new ImportError('JSON must contain "nodes" and "edges" arrays');
+    }
+
+    graph.nodes.forEach((node: any) => {
+      if (node?.id === undefined) return;
+
+      const data: NodeAttributes = {};
+      Object.entries({ ...node, ...(node.data || {}) }).forEach(([key, value]) => {
+        if (typeof value === 'string' || typeof value === 'number') {
+          data[key.toLowerCase()] = String(value);
+        }
+      });
+      nodes.set(String(node.id), data);
+    });
+
+    graph.edges.forEach((edge: any) => {
+      if (edge?.source === undefined || edge?.target === undefined) return;
+      edges.push({
+        source: String(edge.source),
+        target: String(edge.target),
+        mutual: edge.type === 'mutual' || edge.directed === false
+      });
+    });
+  }
+
+  /**
+   * Turn parsed nodes and edges into a graph
+   * Self loops and duplicates are dropped, and follows in both directions become mutual edges
+   */
+  private buildNetwork(nodes: Map<string, NodeAttributes>, rawEdges: RawEdge[]): ImportedNetwork {
+    const pick = (data: NodeAttributes, names: string[]) =>
+      names.map(name => data[name]).find(value => value !== undefined && value !== '');
+
+    const graphNodes: NetworkNode[] = [];
+    const profiles: ImportedNetwork['profiles'] = [];
+    nodes.forEach((data, id) => {
+      const displayName = pick(data, DISPLAY_NAME_ATTRIBUTES);
+      graphNodes.push({
+        id,
+        type: 'user',
+        data: {
+          did: id,
+          handle: pick(data, HANDLE_ATTRIBUTES) || id,
+          displayName,
+          avatar: data.avatar
+        }
+      });
+      profiles.push({ did: id, displayName, description: pick(data, DESCRIPTION_ATTRIBUTES) });
+    });
+
+    // Directed pairs seen, and pairs known to be mutual
+    const follows = new Set<string>();
+    const mutual = new Set<string>();
+    const pairKey = (a: string, b: string) => a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+
+    rawEdges.forEach(({ source, target, mutual: isMutual }) => {
+      if (!source || !target || source === target || !nodes.has(source) || !nodes.has(target)) return;
+
+      if (isMutual || follows.has(`${target}\u0000${source}`)) {
+        mutual.add(pairKey(source, target));
+      }
+      follows.add(`${source}\u0000${target}`);
+    });
+
+    const edges: NetworkEdge[] = [];
+    mutual.forEach(key => {
+      const [source, target] = key.split('\u0000');
+      edges.push({ source, target, type: 'mutual' });
+    });
+    follows.forEach(key => {
+      const [source, target] = key.split('\u0000');
+      if (!mutual.has(pairKey(source, target))) {
+        edges.push({ source, target, type: 'follows' });
+      }
+    });
+
+    return { graph: { nodes: graphNodes, edges }, profiles };
+  }
+}
+
+// Create and export singleton instance
+const graphImporter = new GraphImporter();
+export default graphImporter;
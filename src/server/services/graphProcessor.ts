@@ -3,10 +3,69 @@ import {
   NetworkEdge, 
   NetworkData, 
   Community, 
+  CommunityLevel,
+  CommunityDetectionResult,
+  CommunityDetectionOptions,
+  User,
+  BridgeAnalysis,
+  NodeBrokerage,
+  InterCommunityEdge,
   ConnectionData,
   ConnectionType 
 } from '../../shared/types';
 
+// Community detection limits
+const MAX_LEVELS = 20;
+const MAX_LOCAL_PASSES = 50;
+const MODULARITY_EPSILON = 1e-10;
+
+// Standard modularity; higher values give smaller communities, lower values larger ones
+const DEFAULT_RESOLUTION = 1;
+
+// Bridge detection: a node is a bridge when its links are spread over several communities
+const BRIDGE_PARTICIPATION_THRESHOLD = 0.3;
+const MIN_BRIDGE_LINKS = 2;
+
+/**
+ * Weighted undirected graph used by community detection
+ * Nodes are dense indices; after aggregation a node stands for a whole community
+ * and its internal edges are kept as a self loop
+ */
+interface WeightedGraph {
+  adjacency: Map<number, number>[]; // neighbour index -> edge weight, self loops excluded
+  selfLoops: number[];
+  degrees: number[]; // weighted degree, self loops counted twice
+  totalWeight: number;
+}
+
+// Partition of the original nodes produced by one level of an algorithm
+interface PartitionLevel {
+  assignment: number[];
+  modularity: number;
+}
+
+// Parameters shared by every phase of a single community detection run
+interface DetectionContext {
+  resolution: number;
+  random: () => number;
+  initialMembership?: number[]; // starting partition of the original nodes, if any
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * Lets community detection visit nodes in a random but reproducible order
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Graph Processor Service
  * Handles network graph creation and analysis
@@ -26,7 +85,8 @@ class GraphProcessor {
     followers: ConnectionData[],
     following: ConnectionData[],
     mutuals: ConnectionData[],
-    additionalEdges?: { source: string; target: string }[]
+    additionalEdges?: { source: string; target: string; type?: NetworkEdge['type'] }[],
+    centralUser?: Omit<User, 'did'>
   ): NetworkData {
     console.log('Creating graph with:', {
       userId,
@@ -53,7 +113,8 @@ class GraphProcessor {
           data: {
             did: connection.connectionId,
             handle: connection.profile?.handle || '',
-            displayName: connection.profile?.displayName || ''
+            displayName: connection.profile?.displayName || '',
+            avatar: connection.profile?.avatar || undefined
           }
         });
       }
@@ -65,8 +126,9 @@ class GraphProcessor {
       type: 'user',
       data: {
         did: userId,
-        handle: mutuals?.[0]?.profile?.handle || userId,
-        displayName: mutuals?.[0]?.profile?.displayName || userId
+        handle: centralUser?.handle || userId,
+        displayName: centralUser?.displayName || centralUser?.handle || userId,
+        avatar: centralUser?.avatar || undefined
       }
     };
     nodes.set(userId, centralNode);
@@ -94,7 +156,8 @@ class GraphProcessor {
       });
     }
 
-    // Add additional edges between mutual followers only if both nodes exist
+    // Add additional edges between mutual followers only if both nodes exist.
+    // Edges without an explicit type are treated as mutual follows.
     if (additionalEdges) {
       additionalEdges.forEach(edge => {
         if (!edge?.source || !edge?.target) {
@@ -108,7 +171,7 @@ class GraphProcessor {
         edges.push({
           source: edge.source,
           target: edge.target,
-          type: 'mutual'
+          type: edge.type || 'mutual'
         });
       });
     }
@@ -132,281 +195,713 @@ class GraphProcessor {
   }
 
   /**
-   * Calculate modularity score for a given community structure
+   * Build the weighted graph used by community detection
+   * Edge weights come from EDGE_WEIGHTS; self edges and dangling edges are ignored.
+   * Nodes and edges are put in a canonical order so results don't depend on input order.
    */
-  private calculateModularity(
-    communities: Community[],
-    nodeMap: Map<string, number>,
-    adjacencyMap: Map<string, Set<string>>,
-    totalEdges: number
-  ): number {
-    let modularity = 0;
-    const degreeMap = new Map<string, number>();
+  private buildWeightedGraph(graph: NetworkData): { nodeIds: string[]; weighted: WeightedGraph } {
+    const nodeIds = Array.from(new Set(
+      graph.nodes.filter(node => node?.id).map(node => node.id)
+    )).sort();
+    const indexById = new Map<string, number>();
+    nodeIds.forEach((nodeId, index) => indexById.set(nodeId, index));
+
+    const weighted: WeightedGraph = {
+      adjacency: nodeIds.map(() => new Map<number, number>()),
+      selfLoops: nodeIds.map(() => 0),
+      degrees: nodeIds.map(() => 0),
+      totalWeight: 0
+    };
 
-    // Calculate node degrees
-    adjacencyMap.forEach((neighbors, nodeId) => {
-      degreeMap.set(nodeId, neighbors.size);
+    const indexedEdges = graph.edges
+      .map(edge => ({
+        source: indexById.get(edge?.source),
+        target: indexById.get(edge?.target),
+        weight: this.EDGE_WEIGHTS[edge?.type] ?? 1
+      }))
+      .filter((edge): edge is { source: number; target: number; weight: number } =>
+        edge.source !== undefined && edge.target !== undefined && edge.source !== edge.target
+      )
+      .sort((a, b) => a.source - b.source || a.target - b.target || a.weight - b.weight);
+
+    indexedEdges.forEach(({ source, target, weight }) => {
+      weighted.adjacency[source].set(target, (weighted.adjacency[source].get(target) || 0) + weight);
+      weighted.adjacency[target].set(source, (weighted.adjacency[target].get(source) || 0) + weight);
+      weighted.degrees[source] += weight;
+      weighted.degrees[target] += weight;
+      weighted.totalWeight += weight;
     });
 
-    // Calculate modularity
-    communities.forEach(community => {
-      community.members.forEach(nodeI => {
-        community.members.forEach(nodeJ => {
-          if (nodeI === nodeJ) return;
-
-          const actualConnection = adjacencyMap.get(nodeI)?.has(nodeJ) ? 1 : 0;
-          const expectedConnection = (degreeMap.get(nodeI) || 0) * (degreeMap.get(nodeJ) || 0) / (2 * totalEdges);
-          
-          modularity += actualConnection - expectedConnection;
-        });
+    return { nodeIds, weighted };
+  }
+
+  /**
+   * Calculate modularity of a partition in O(nodes + edges)
+   */
+  private calculateModularity(graph: WeightedGraph, membership: number[], resolution: number): number {
+    const doubleWeight = 2 * graph.totalWeight;
+    if (doubleWeight === 0) {
+      return 0;
+    }
+
+    const internalWeights = new Map<number, number>();
+    const totalDegrees = new Map<number, number>();
+
+    membership.forEach((community, node) => {
+      totalDegrees.set(community, (totalDegrees.get(community) || 0) + graph.degrees[node]);
+
+      let internal = 2 * graph.selfLoops[node];
+      graph.adjacency[node].forEach((weight, neighbor) => {
+        if (membership[neighbor] === community) {
+          internal += weight;
+        }
       });
+      internalWeights.set(community, (internalWeights.get(community) || 0) + internal);
     });
 
-    return modularity / (2 * totalEdges);
+    let modularity = 0;
+    totalDegrees.forEach((total, community) => {
+      modularity += (internalWeights.get(community) || 0) / doubleWeight -
+        resolution * Math.pow(total / doubleWeight, 2);
+    });
+
+    return modularity;
   }
 
   /**
-   * Calculate the change in modularity if a node moves to a new community
+   * Node indices in a seeded random order (Fisher-Yates)
    */
-  private calculateModularityGain(
-    node: string,
-    fromCommunity: number,
-    toCommunity: number,
-    communities: Community[],
-    nodeMap: Map<string, number>,
-    adjacencyMap: Map<string, Set<string>>,
-    totalEdges: number
-  ): number {
-    const neighbors = adjacencyMap.get(node) || new Set();
-    let gain = 0;
-
-    // Calculate connections to target community
-    const connectionsTo = Array.from(neighbors)
-      .filter(neighbor => nodeMap.get(neighbor) === toCommunity)
-      .length;
-
-    // Calculate connections to current community
-    const connectionsFrom = Array.from(neighbors)
-      .filter(neighbor => nodeMap.get(neighbor) === fromCommunity)
-      .length;
-
-    // Calculate community sizes
-    const fromSize = communities[fromCommunity].size - 1;
-    const toSize = communities[toCommunity].size + 1;
-
-    // Calculate modularity gain using the formula from the Louvain method
-    gain = (connectionsTo / totalEdges) - 
-           (connectionsFrom / totalEdges) * 
-           ((fromSize * toSize) / Math.pow(2 * totalEdges, 2));
-
-    return gain;
+  private shuffledNodes(count: number, random: () => number): number[] {
+    const order = Array.from({ length: count }, (_, index) => index);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
   }
 
   /**
-   * Detect communities using the enhanced Louvain method
+   * Louvain phase one: move nodes to the neighbouring community with the best modularity gain
+   * until a full pass makes no move. Returns whether any node changed community.
    */
-  detectCommunities(graph: NetworkData): Community[] {
-    if (!graph?.nodes?.length || !graph?.edges?.length) {
-      console.log('No nodes or edges in graph, returning empty communities array');
-      return [];
+  private moveNodesLocally(graph: WeightedGraph, membership: number[], context: DetectionContext): boolean {
+    const doubleWeight = 2 * graph.totalWeight;
+    const communityTotals = new Array<number>(membership.length).fill(0);
+    membership.forEach((community, node) => {
+      communityTotals[community] += graph.degrees[node];
+    });
+
+    const order = this.shuffledNodes(membership.length, context.random);
+    let improved = false;
+    let moved = true;
+    let passes = 0;
+
+    while (moved && passes < MAX_LOCAL_PASSES) {
+      moved = false;
+      passes++;
+
+      for (const node of order) {
+        const currentCommunity = membership[node];
+        const degree = graph.degrees[node];
+
+        // Sum of edge weights from this node into each neighbouring community
+        const linksTo = new Map<number, number>();
+        graph.adjacency[node].forEach((weight, neighbor) => {
+          const community = membership[neighbor];
+          linksTo.set(community, (linksTo.get(community) || 0) + weight);
+        });
+
+        // Take the node out of its community and find the best place to put it back
+        communityTotals[currentCommunity] -= degree;
+        let bestCommunity = currentCommunity;
+        let bestGain = (linksTo.get(currentCommunity) || 0) -
+          context.resolution * communityTotals[currentCommunity] * degree / doubleWeight;
+
+        linksTo.forEach((weight, community) => {
+          if (community === currentCommunity) return;
+
+          const gain = weight - context.resolution * communityTotals[community] * degree / doubleWeight;
+          if (gain > bestGain + MODULARITY_EPSILON) {
+            bestGain = gain;
+            bestCommunity = community;
+          }
+        });
+
+        communityTotals[bestCommunity] += degree;
+        if (bestCommunity !== currentCommunity) {
+          membership[node] = bestCommunity;
+          moved = true;
+          improved = true;
+        }
+      }
     }
 
-    console.log('Detecting communities for graph with:', {
-      nodes: graph.nodes.length,
-      edges: graph.edges.length
-    });
+    return improved;
+  }
 
-    const communities: Community[] = [];
-    const nodeMap = new Map<string, number>(); // node id to community id
-    
-    // Initialize each node in its own community
-    graph.nodes.forEach((node, index) => {
-      if (!node?.id) {
-        console.log('Found node without id, skipping');
-        return;
+  /**
+   * Renumber community ids to 0..k-1 in place and return k
+   */
+  private renumberMembership(membership: number[]): number {
+    const renumbered = new Map<number, number>();
+    membership.forEach((community, node) => {
+      if (!renumbered.has(community)) {
+        renumbered.set(community, renumbered.size);
       }
-      nodeMap.set(node.id, index);
-      communities.push({
-        id: `community-${index}`,
-        size: 1,
-        members: [node.id],
-        metrics: {
-          density: 0,
-          cohesion: 0
+      membership[node] = renumbered.get(community)!;
+    });
+    return renumbered.size;
+  }
+
+  /**
+   * Louvain phase two: collapse every community into a single node
+   * Internal edges become self loops so modularity is preserved
+   */
+  private aggregateGraph(graph: WeightedGraph, membership: number[], communityCount: number): WeightedGraph {
+    const aggregated: WeightedGraph = {
+      adjacency: Array.from({ length: communityCount }, () => new Map<number, number>()),
+      selfLoops: new Array<number>(communityCount).fill(0),
+      degrees: new Array<number>(communityCount).fill(0),
+      totalWeight: graph.totalWeight
+    };
+
+    membership.forEach((community, node) => {
+      aggregated.degrees[community] += graph.degrees[node];
+      aggregated.selfLoops[community] += graph.selfLoops[node];
+
+      graph.adjacency[node].forEach((weight, neighbor) => {
+        const neighborCommunity = membership[neighbor];
+        if (neighborCommunity === community) {
+          // Every internal edge is visited from both ends
+          aggregated.selfLoops[community] += weight / 2;
+        } else {
+          const links = aggregated.adjacency[community];
+          links.set(neighborCommunity, (links.get(neighborCommunity) || 0) + weight);
         }
       });
     });
 
-    // Create weighted adjacency map
-    const adjacencyMap = new Map<string, Set<string>>();
-    const totalEdges = graph.edges.length;
-    
-    graph.edges.forEach(edge => {
-      if (!edge?.source || !edge?.target) {
-        console.log('Found edge without source or target, skipping');
-        return;
-      }
+    return aggregated;
+  }
 
-      const weight = this.EDGE_WEIGHTS[edge.type];
+  /**
+   * Map existing communities onto the current nodes
+   * Nodes that were not in any community start on their own
+   */
+  private buildInitialMembership(nodeIds: string[], communities: Community[]): number[] {
+    const communityOf = new Map<string, number>();
+    communities.forEach((community, index) => {
+      community.members.forEach(member => {
+        if (!communityOf.has(member)) {
+          communityOf.set(member, index);
+        }
+      });
+    });
 
-      if (!adjacencyMap.has(edge.source)) {
-        adjacencyMap.set(edge.source, new Set());
+    // New nodes get unique negative ids so they never collide with a community index
+    const membership = nodeIds.map((nodeId, index) => communityOf.get(nodeId) ?? -1 - index);
+    const communityCount = this.renumberMembership(membership);
+    console.log(`Starting from ${communities.length} previous communities (${communityCount} after mapping onto current nodes)`);
+    return membership;
+  }
+
+  /**
+   * Turn a node -> community assignment into Community objects with metrics
+   * Communities are ordered by size so ids are stable for identical partitions
+   */
+  private buildCommunities(graph: NetworkData, nodeIds: string[], assignment: number[]): Community[] {
+    const membersByCommunity = new Map<number, string[]>();
+    const communityOf = new Map<string, number>();
+
+    nodeIds.forEach((nodeId, index) => {
+      const community = assignment[index];
+      communityOf.set(nodeId, community);
+      if (!membersByCommunity.has(community)) {
+        membersByCommunity.set(community, []);
       }
-      if (!adjacencyMap.has(edge.target)) {
-        adjacencyMap.set(edge.target, new Set());
+      membersByCommunity.get(community)!.push(nodeId);
+    });
+
+    const internalEdges = new Map<number, number>();
+    const internalMutualEdges = new Map<number, number>();
+    const internalDegrees = new Map<string, number>();
+
+    graph.edges.forEach(edge => {
+      const community = communityOf.get(edge?.source);
+      if (community === undefined || edge.source === edge.target || communityOf.get(edge.target) !== community) {
+        return;
       }
 
-      // Add weighted connections
-      for (let i = 0; i < weight; i++) {
-        adjacencyMap.get(edge.source)!.add(edge.target);
-        adjacencyMap.get(edge.target)!.add(edge.source);
+      internalEdges.set(community, (internalEdges.get(community) || 0) + 1);
+      if (edge.type === 'mutual') {
+        internalMutualEdges.set(community, (internalMutualEdges.get(community) || 0) + 1);
       }
+      internalDegrees.set(edge.source, (internalDegrees.get(edge.source) || 0) + 1);
+      internalDegrees.set(edge.target, (internalDegrees.get(edge.target) || 0) + 1);
     });
 
-    // Merge communities based on modularity
-    let changed = true;
-    let iterations = 0;
-    const MAX_ITERATIONS = 10;
-    let bestModularity = this.calculateModularity(communities, nodeMap, adjacencyMap, totalEdges);
+    return Array.from(membersByCommunity.entries())
+      .sort(([, a], [, b]) => b.length - a.length || a[0].localeCompare(b[0]))
+      .map(([community, members], index) => {
+        // Density: ratio of actual to possible connections
+        const possibleConnections = members.length * (members.length - 1) / 2;
+        const actualConnections = internalEdges.get(community) || 0;
+
+        // Cohesion: ratio of mutual to total internal connections
+        const mutualConnections = internalMutualEdges.get(community) || 0;
+
+        // Central nodes: members with the most connections within the community
+        const centralNodes = members
+          .slice()
+          .sort((a, b) => (internalDegrees.get(b) || 0) - (internalDegrees.get(a) || 0))
+          .slice(0, 3);
+
+        return {
+          id: `community-${index}`,
+          size: members.length,
+          members,
+          centralNodes,
+          metrics: {
+            density: possibleConnections > 0 ? actualConnections / possibleConnections : 0,
+            cohesion: actualConnections > 0 ? mutualConnections / actualConnections : 0
+          }
+        };
+      });
+  }
 
-    while (changed && iterations < MAX_ITERATIONS) {
-      changed = false;
-      iterations++;
-      
-      // For each node
-      graph.nodes.forEach(node => {
-        if (!node?.id) {
-          console.log('Found node without id during community detection, skipping');
-          return;
-        }
+  /**
+   * Leiden phase one: queue-based fast local moving
+   * Only neighbours of moved nodes are revisited, and a node may also move into an empty community
+   */
+  private moveNodesFast(graph: WeightedGraph, membership: number[], context: DetectionContext): boolean {
+    const nodeCount = membership.length;
+    const doubleWeight = 2 * graph.totalWeight;
+    const communityTotals = new Array<number>(nodeCount).fill(0);
+    const communitySizes = new Array<number>(nodeCount).fill(0);
+    membership.forEach((community, node) => {
+      communityTotals[community] += graph.degrees[node];
+      communitySizes[community]++;
+    });
 
-        const currentCommunity = nodeMap.get(node.id);
-        if (typeof currentCommunity === 'undefined') {
-          console.log(`No community found for node ${node.id}, skipping`);
-          return;
+    const emptyCommunities: number[] = [];
+    communitySizes.forEach((size, community) => {
+      if (size === 0) emptyCommunities.push(community);
+    });
+
+    const queue = this.shuffledNodes(nodeCount, context.random);
+    const inQueue = new Array<boolean>(nodeCount).fill(true);
+    let moved = false;
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      inQueue[node] = false;
+
+      const currentCommunity = membership[node];
+      const degree = graph.degrees[node];
+
+      const linksTo = new Map<number, number>();
+      graph.adjacency[node].forEach((weight, neighbor) => {
+        const community = membership[neighbor];
+        linksTo.set(community, (linksTo.get(community) || 0) + weight);
+      });
+
+      communityTotals[currentCommunity] -= degree;
+      communitySizes[currentCommunity]--;
+
+      let bestCommunity = currentCommunity;
+      let bestGain = (linksTo.get(currentCommunity) || 0) -
+        context.resolution * communityTotals[currentCommunity] * degree / doubleWeight;
+
+      linksTo.forEach((weight, community) => {
+        if (community === currentCommunity) return;
+
+        const gain = weight - context.resolution * communityTotals[community] * degree / doubleWeight;
+        if (gain > bestGain + MODULARITY_EPSILON) {
+          bestGain = gain;
+          bestCommunity = community;
         }
+      });
 
-        const neighbors = adjacencyMap.get(node.id) || new Set();
-        
-        // Find the neighboring community with highest modularity gain
-        const neighborCommunities = new Map<number, number>();
-        neighbors.forEach(neighborId => {
-          const neighborCommunity = nodeMap.get(neighborId);
-          if (typeof neighborCommunity === 'undefined') return;
-
-          neighborCommunities.set(
-            neighborCommunity,
-            (neighborCommunities.get(neighborCommunity) || 0) + 1
-          );
-        });
+      // Being alone has zero gain, which beats a community the node barely belongs to
+      if (bestGain < -MODULARITY_EPSILON && communitySizes[currentCommunity] > 0 && emptyCommunities.length > 0) {
+        bestCommunity = emptyCommunities.pop()!;
+      }
 
-        // Find best community to move to based on modularity gain
-        let bestCommunity = currentCommunity;
-        let maxGain = 0;
-
-        neighborCommunities.forEach((_, communityId) => {
-          if (communityId === currentCommunity) return;
-
-          const gain = this.calculateModularityGain(
-            node.id,
-            currentCommunity,
-            communityId,
-            communities,
-            nodeMap,
-            adjacencyMap,
-            totalEdges
-          );
-
-          if (gain > maxGain) {
-            maxGain = gain;
-            bestCommunity = communityId;
+      communityTotals[bestCommunity] += degree;
+      communitySizes[bestCommunity]++;
+
+      if (bestCommunity !== currentCommunity) {
+        if (communitySizes[currentCommunity] === 0) {
+          emptyCommunities.push(currentCommunity);
+        }
+        membership[node] = bestCommunity;
+        moved = true;
+
+        // Neighbours outside the new community may now prefer to follow
+        graph.adjacency[node].forEach((_, neighbor) => {
+          if (!inQueue[neighbor] && membership[neighbor] !== bestCommunity) {
+            inQueue[neighbor] = true;
+            queue.push(neighbor);
           }
         });
+      }
+    }
 
-        // Move node to best community if it improves modularity
-        if (bestCommunity !== currentCommunity && maxGain > 0) {
-          // Remove from current community
-          if (communities[currentCommunity]?.members) {
-            communities[currentCommunity].members = 
-              communities[currentCommunity].members.filter(id => id && id !== node.id);
-            communities[currentCommunity].size = communities[currentCommunity].members.length;
-          }
+    return moved;
+  }
 
-          // Add to new community
-          if (communities[bestCommunity]?.members) {
-            communities[bestCommunity].members.push(node.id);
-            communities[bestCommunity].size = communities[bestCommunity].members.length;
-            nodeMap.set(node.id, bestCommunity);
-            changed = true;
-          }
+  /**
+   * Leiden phase two: split every community into well-connected sub-communities
+   * Starts from singletons and only merges a node into a sub-community of its own community
+   * when both are well connected to the rest of it, which guarantees connected communities
+   */
+  private refinePartition(graph: WeightedGraph, membership: number[], context: DetectionContext): number[] {
+    const nodeCount = membership.length;
+    const doubleWeight = 2 * graph.totalWeight;
+    const refined = membership.map((_, node) => node);
+    const refinedTotals = graph.degrees.slice();
+    const refinedSizes = new Array<number>(nodeCount).fill(1);
+
+    const communityTotals = new Array<number>(nodeCount).fill(0);
+    membership.forEach((community, node) => {
+      communityTotals[community] += graph.degrees[node];
+    });
+
+    // Weight from each node, and later each sub-community, to the rest of its community
+    const linksWithinCommunity = membership.map((community, node) => {
+      let weight = 0;
+      graph.adjacency[node].forEach((edgeWeight, neighbor) => {
+        if (membership[neighbor] === community) weight += edgeWeight;
+      });
+      return weight;
+    });
+    const externalLinks = linksWithinCommunity.slice();
+
+    for (const node of this.shuffledNodes(nodeCount, context.random)) {
+      // Only nodes that nobody has joined yet are moved
+      if (refinedSizes[refined[node]] !== 1) continue;
+
+      const community = membership[node];
+      const degree = graph.degrees[node];
+      const communityTotal = communityTotals[community];
+
+      if (linksWithinCommunity[node] < context.resolution * degree * (communityTotal - degree) / doubleWeight) {
+        continue;
+      }
+
+      const linksTo = new Map<number, number>();
+      graph.adjacency[node].forEach((weight, neighbor) => {
+        if (membership[neighbor] !== community) return;
+        const subCommunity = refined[neighbor];
+        linksTo.set(subCommunity, (linksTo.get(subCommunity) || 0) + weight);
+      });
+
+      const ownSubCommunity = refined[node];
+      let bestSubCommunity = ownSubCommunity;
+      let bestGain = 0;
+
+      linksTo.forEach((weight, subCommunity) => {
+        if (subCommunity === ownSubCommunity) return;
+
+        const subTotal = refinedTotals[subCommunity];
+        if (externalLinks[subCommunity] < context.resolution * subTotal * (communityTotal - subTotal) / doubleWeight) {
+          return;
+        }
+
+        const gain = weight - context.resolution * subTotal * degree / doubleWeight;
+        if (gain > bestGain + MODULARITY_EPSILON) {
+          bestGain = gain;
+          bestSubCommunity = subCommunity;
         }
       });
 
-      // Calculate new modularity score
-      const newModularity = this.calculateModularity(communities, nodeMap, adjacencyMap, totalEdges);
-      console.log(`Iteration ${iterations}: modularity = ${newModularity}`);
+      if (bestSubCommunity !== ownSubCommunity) {
+        externalLinks[bestSubCommunity] += linksWithinCommunity[node] - 2 * (linksTo.get(bestSubCommunity) || 0);
+        refinedTotals[bestSubCommunity] += degree;
+        refinedTotals[ownSubCommunity] -= degree;
+        refinedSizes[bestSubCommunity]++;
+        refinedSizes[ownSubCommunity]--;
+        refined[node] = bestSubCommunity;
+      }
+    }
 
-      if (newModularity <= bestModularity) {
+    return refined;
+  }
+
+  /**
+   * Run Louvain and return the partition of the original nodes at every level
+   */
+  private runLouvain(graph: WeightedGraph, context: DetectionContext): PartitionLevel[] {
+    const levels: PartitionLevel[] = [];
+    let nodeAssignment = graph.degrees.map((_, index) => index);
+    let currentGraph = graph;
+    let bestModularity = this.calculateModularity(graph, nodeAssignment, context.resolution);
+
+    for (let level = 0; level < MAX_LEVELS; level++) {
+      // A starting partition replaces the singletons of the first level and counts
+      // as a level even when no node wants to move out of it
+      const isSeeded = level === 0 && !!context.initialMembership;
+      const membership = isSeeded
+        ? context.initialMembership!.slice()
+        : currentGraph.degrees.map((_, index) => index);
+      if (!this.moveNodesLocally(currentGraph, membership, context) && !isSeeded) {
+        break;
+      }
+
+      const communityCount = this.renumberMembership(membership);
+      const modularity = this.calculateModularity(currentGraph, membership, context.resolution);
+      console.log(`Louvain level ${level}: ${communityCount} communities, modularity = ${modularity}`);
+
+      if (modularity - bestModularity <= MODULARITY_EPSILON) {
         break;
       }
-      bestModularity = newModularity;
+
+      bestModularity = modularity;
+      nodeAssignment = nodeAssignment.map(node => membership[node]);
+      levels.push({ assignment: nodeAssignment, modularity });
+
+      currentGraph = this.aggregateGraph(currentGraph, membership, communityCount);
     }
 
-    // Remove empty communities and calculate metrics
-    const finalCommunities = communities
-      .filter(community => community?.size > 0 && Array.isArray(community.members))
-      .map(community => {
-        // Calculate density (ratio of actual to possible connections)
-        const possibleConnections = community.size * (community.size - 1) / 2;
-        let actualConnections = 0;
-        
-        community.members.forEach(member => {
-          if (!member) return;
-          const neighbors = adjacencyMap.get(member) || new Set();
-          actualConnections += Array.from(neighbors)
-            .filter(neighbor => neighbor && community.members?.includes(neighbor)).length;
-        });
-        actualConnections /= 2; // Each edge was counted twice
-
-        // Calculate cohesion (ratio of mutual to total connections)
-        const mutualConnections = graph.edges.filter(edge => 
-          edge?.type === 'mutual' &&
-          edge?.source &&
-          edge?.target &&
-          community.members?.includes(edge.source) &&
-          community.members?.includes(edge.target)
-        ).length;
-
-        community.metrics = {
-          density: possibleConnections > 0 ? actualConnections / possibleConnections : 0,
-          cohesion: actualConnections > 0 ? mutualConnections / actualConnections : 0
-        };
+    return levels;
+  }
 
-        // Identify central nodes (nodes with highest number of connections within community)
-        const nodeDegrees = new Map<string, number>();
-        community.members.forEach(member => {
-          if (!member) return;
-          const neighbors = adjacencyMap.get(member) || new Set();
-          nodeDegrees.set(member, 
-            Array.from(neighbors)
-              .filter(neighbor => neighbor && community.members?.includes(neighbor)).length
-          );
+  /**
+   * Run Leiden and return the partition of the original nodes at every level
+   * The aggregate graph is built from the refined partition, while the unrefined
+   * partition seeds the next round of local moving
+   */
+  private runLeiden(graph: WeightedGraph, context: DetectionContext): PartitionLevel[] {
+    const levels: PartitionLevel[] = [];
+    let nodeAssignment = graph.degrees.map((_, index) => index); // original node -> aggregate node
+    let currentGraph = graph;
+    let membership = context.initialMembership?.slice() || nodeAssignment.slice(); // aggregate node -> community
+    let bestModularity = this.calculateModularity(graph, membership, context.resolution);
+
+    for (let level = 0; level < MAX_LEVELS; level++) {
+      const moved = this.moveNodesFast(currentGraph, membership, context);
+      const communityCount = this.renumberMembership(membership);
+      const modularity = this.calculateModularity(currentGraph, membership, context.resolution);
+      console.log(`Leiden level ${level}: ${communityCount} communities, modularity = ${modularity}`);
+
+      if (modularity - bestModularity > MODULARITY_EPSILON) {
+        bestModularity = modularity;
+        levels.push({
+          assignment: nodeAssignment.map(node => membership[node]),
+          modularity
         });
+      }
 
-        community.centralNodes = Array.from(nodeDegrees.entries())
-          .sort((a, b) => b[1] - a[1])
-          .slice(0, 3)
-          .map(([nodeId]) => nodeId);
+      // Every community is a single aggregate node: nothing left to merge
+      if (communityCount === membership.length) {
+        break;
+      }
 
-        return community;
+      const refined = this.refinePartition(currentGraph, membership, context);
+      const refinedCount = this.renumberMembership(refined);
+      if (!moved && refinedCount === membership.length) {
+        break;
+      }
+
+      const nextMembership = new Array<number>(refinedCount);
+      refined.forEach((subCommunity, node) => {
+        nextMembership[subCommunity] = membership[node];
       });
 
+      currentGraph = this.aggregateGraph(currentGraph, refined, refinedCount);
+      nodeAssignment = nodeAssignment.map(node => refined[node]);
+      membership = nextMembership;
+    }
+
+    return levels;
+  }
+
+  /**
+   * Detect communities with the selected algorithm (multi-level Louvain by default)
+   * Levels run from the finest partition (first pass) to the coarsest (final result).
+   * The same graph, options and seed always produce the same communities; without a
+   * seed a random one is drawn and returned so the run can be reproduced.
+   * Initial communities (usually the previous analysis) are used as the starting partition.
+   */
+  detectCommunities(graph: NetworkData, options: CommunityDetectionOptions = {}): CommunityDetectionResult {
+    const algorithm = options.algorithm || 'louvain';
+    const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+    const seed = options.seed ?? Math.floor(Math.random() * 4294967296);
+
+    if (!graph?.nodes?.length || !graph?.edges?.length) {
+      console.log('No nodes or edges in graph, returning empty communities array');
+      return { communities: [], modularity: 0, levels: [], algorithm, resolution, seed };
+    }
+
+    console.log('Detecting communities for graph with:', {
+      nodes: graph.nodes.length,
+      edges: graph.edges.length,
+      algorithm,
+      resolution,
+      seed
+    });
+
+    const { nodeIds, weighted } = this.buildWeightedGraph(graph);
+    const context: DetectionContext = {
+      resolution,
+      random: createRandom(seed),
+      initialMembership: options.initialCommunities?.length
+        ? this.buildInitialMembership(nodeIds, options.initialCommunities)
+        : undefined
+    };
+    const partitions = algorithm === 'leiden'
+      ? this.runLeiden(weighted, context)
+      : this.runLouvain(weighted, context);
+
+    // No move improved modularity: every node stays in its own community
+    if (partitions.length === 0) {
+      const singletons = nodeIds.map((_, index) => index);
+      partitions.push({
+        assignment: singletons,
+        modularity: this.calculateModularity(weighted, singletons, resolution)
+      });
+    }
+
+    const levels: CommunityLevel[] = partitions.map((partition, level) => ({
+      level,
+      modularity: partition.modularity,
+      communities: this.buildCommunities(graph, nodeIds, partition.assignment)
+    }));
+    const finalLevel = levels[levels.length - 1];
+
     console.log('Detected communities:', {
-      count: finalCommunities.length,
-      modularity: bestModularity
+      count: finalLevel.communities.length,
+      levels: levels.length,
+      modularity: finalLevel.modularity
+    });
+
+    return {
+      communities: finalLevel.communities,
+      modularity: finalLevel.modularity,
+      levels,
+      algorithm,
+      resolution,
+      seed
+    };
+  }
+
+  /**
+   * Find accounts that connect otherwise separate communities
+   * Computes the participation coefficient and Burt's constraint from the weighted adjacency,
+   * plus every edge that crosses a community boundary. The excluded node (normally the
+   * analysed user, who is linked to every community) is left out of the graph.
+   */
+  detectBridges(graph: NetworkData, communities: Community[], excludeNodeId?: string): BridgeAnalysis {
+    if (!graph?.nodes?.length || !graph?.edges?.length || !communities?.length) {
+      console.log('No nodes, edges or communities in graph, returning empty bridge analysis');
+      return { nodes: [], bridgeNodes: [], interCommunityEdges: [] };
+    }
+
+    const communityOf = new Map<string, string>();
+    communities.forEach(community => {
+      community.members.forEach(member => communityOf.set(member, community.id));
+    });
+
+    const edges = graph.edges.filter(edge =>
+      edge?.source !== excludeNodeId && edge?.target !== excludeNodeId
+    );
+    const { nodeIds, weighted } = this.buildWeightedGraph({
+      nodes: graph.nodes.filter(node => node?.id !== excludeNodeId),
+      edges
+    });
+
+    console.log('Detecting bridges for graph with:', {
+      nodes: nodeIds.length,
+      edges: edges.length,
+      communities: communities.length
+    });
+
+    const nodes: NodeBrokerage[] = nodeIds.map((nodeId, node) => {
+      const community = communityOf.get(nodeId) || '';
+      const strength = weighted.degrees[node];
+
+      // Participation coefficient: 1 - sum over communities of (links into it / all links)^2
+      const linksByCommunity = new Map<string, number>();
+      let interCommunityLinks = 0;
+      weighted.adjacency[node].forEach((weight, neighbor) => {
+        const neighborCommunity = communityOf.get(nodeIds[neighbor]) || '';
+        linksByCommunity.set(neighborCommunity, (linksByCommunity.get(neighborCommunity) || 0) + weight);
+        if (neighborCommunity !== community) {
+          interCommunityLinks++;
+        }
+      });
+
+      let concentration = 0;
+      linksByCommunity.forEach(weight => {
+        concentration += Math.pow(weight / strength, 2);
+      });
+
+      return {
+        id: nodeId,
+        community,
+        participation: strength > 0 ? 1 - concentration : 0,
+        constraint: this.calculateConstraint(weighted, node),
+        interCommunityLinks
+      };
+    });
+
+    const bridgeNodes = nodes
+      .filter(node =>
+        node.participation >= BRIDGE_PARTICIPATION_THRESHOLD &&
+        node.interCommunityLinks >= MIN_BRIDGE_LINKS
+      )
+      .sort((a, b) => b.participation - a.participation || a.constraint - b.constraint)
+      .map(node => node.id);
+
+    const interCommunityEdges: InterCommunityEdge[] = [];
+    edges.forEach(edge => {
+      const sourceCommunity = communityOf.get(edge.source);
+      const targetCommunity = communityOf.get(edge.target);
+      if (sourceCommunity && targetCommunity && sourceCommunity !== targetCommunity) {
+        interCommunityEdges.push({
+          source: edge.source,
+          target: edge.target,
+          type: edge.type,
+          sourceCommunity,
+          targetCommunity
+        });
+      }
+    });
+
+    console.log('Detected bridges:', {
+      bridgeNodes: bridgeNodes.length,
+      interCommunityEdges: interCommunityEdges.length
+    });
+
+    return { nodes, bridgeNodes, interCommunityEdges };
+  }
+
+  /**
+   * Burt's constraint of a node: sum over neighbours j of (p_ij + sum_q p_iq * p_qj)^2
+   * where p_ij is the share of i's link weight going to j. Low values mean the node
+   * spans structural holes; a node without links is fully constrained.
+   */
+  private calculateConstraint(graph: WeightedGraph, node: number): number {
+    const strength = graph.degrees[node];
+    if (strength === 0) {
+      return 1;
+    }
+
+    const share = (from: number, to: number) =>
+      (graph.adjacency[from].get(to) || 0) / graph.degrees[from];
+
+    let constraint = 0;
+    graph.adjacency[node].forEach((_, neighbor) => {
+      let indirect = 0;
+      graph.adjacency[node].forEach((__, intermediate) => {
+        if (intermediate !== neighbor) {
+          indirect += share(node, intermediate) * share(intermediate, neighbor);
+        }
+      });
+      constraint += Math.pow(share(node, neighbor) + indirect, 2);
     });
 
-    return finalCommunities;
+    return constraint;
   }
 }
 
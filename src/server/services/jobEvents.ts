@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import JobEvent from '../models/JobEvent';
+import { JobStatus } from '../models/Job';
+import { AnalysisProgress } from '../../shared/types';
+
+// Wait before tailing again after the cursor closes (empty collection, lost connection)
+const TAIL_RETRY_DELAY_MS = 1000;
+
+export type JobEventMessage =
+  | { type: 'jobProgress'; jobId: string; progress: AnalysisProgress }
+  | { type: 'jobStatus'; jobId: string; status: JobStatus };
+
+/**
+ * Job Events
+ * Carries job progress and status updates between processes through a capped collection
+ * Every process publishes to it; processes with subscribers tail it
+ */
+class JobEvents {
+  private emitter = new EventEmitter();
+  private tailing = false;
+
+  /**
+   * Publish an event to every subscribed process, including this one
+   * @param event Event to publish
+   */
+  async publish(event: JobEventMessage): Promise<void> {
+    try {
+      await JobEvent.create(event);
+    } catch (error) {
+      console.error(`[JobEvents] Failed to publish ${event.type} for job ${event.jobId}:`, error);
+    }
+  }
+
+  /**
+   * Receive events published from now on; tailing starts with the first subscriber
+   * @param listener Called for every event
+   */
+  subscribe(listener: (event: JobEventMessage) => void): void {
+    this.emitter.on('event', listener);
+    if (!this.tailing) {
+      this.tailing = true;
+      this.tail();
+    }
+  }
+
+  /**
+   * Follow the collection with a tailable cursor, reopening it whenever it closes
+   */
+  private async tail(): Promise<void> {
+    // Only events from this second on; ObjectIds start with their creation time
+    let lastId = mongoose.Types.ObjectId.createFromTime(Math.floor(Date.now() / 1000));
+    console.log('[JobEvents] Tailing job events');
+
+    for (;;) {
+      try {
+        const cursor = JobEvent.find({ _id: { $gt: lastId } })
+          .tailable(true)
+          .lean()
+          .cursor()
+          .addCursorFlag('awaitData', true);
+
+        for await (const event of cursor) {
+          lastId = event._id as unknown as mongoose.Types.ObjectId;
+          this.emitter.emit('event', event.type === 'jobProgress'
+            ? { type: event.type, jobId: event.jobId, progress: event.progress }
+            : { type: event.type, jobId: event.jobId, status: event.status });
+        }
+      } catch (error) {
+        console.error('[JobEvents] Error tailing job events:', error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, TAIL_RETRY_DELAY_MS));
+    }
+  }
+}
+
+// Create and export singleton instance
+const jobEvents = new JobEvents();
+export default jobEvents;
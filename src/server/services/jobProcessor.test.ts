@@ -0,0 +1,106 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import sift from 'sift';
+import Job, { JobDocument, JobStatus, JobType, QUEUE_LIMITS } from '../models/Job';
+import jobProcessor from './jobProcessor';
+
+/**
+ * Job processor retries
+ * The Job model is backed by a single in-memory record; filters are matched with sift,
+ * the MongoDB query matcher mongoose itself uses, so the processor's real claim queries are exercised
+ */
+
+type JobRecord = Record<string, any>;
+
+function applyUpdate(record: JobRecord, update: Record<string, any>): void {
+  Object.assign(record, update.$set);
+  Object.keys(update.$unset || {}).forEach(path => delete record[path]);
+  Object.entries(update.$inc || {}).forEach(([path, amount]) => {
+    record[path] = (record[path] || 0) + (amount as number);
+  });
+}
+
+function useRecord(record: JobRecord): void {
+  const matches = (filter: object) => sift(filter)(record);
+
+  mock.method(Job, 'countDocuments', async (filter: object) => (matches(filter) ? 1 : 0));
+  mock.method(Job, 'findOneAndUpdate', async (filter: object, update: Record<string, any>) => {
+    if (!matches(filter)) {
+      return null;
+    }
+    applyUpdate(record, update);
+    return Job.hydrate({ ...record });
+  });
+  mock.method(Job, 'updateOne', async (filter: object, update: Record<string, any>) => {
+    if (!matches(filter)) {
+      return { matchedCount: 0, modifiedCount: 0 };
+    }
+    applyUpdate(record, update);
+    return { matchedCount: 1, modifiedCount: 1 };
+  });
+}
+
+// Private steps of the processor, run one at a time instead of on its interval
+const processor = jobProcessor as unknown as {
+  getNextJob(): Promise<JobDocument | null>;
+  processJob(job: JobDocument): Promise<void>;
+};
+
+function newJobRecord(): JobRecord {
+  return new Job({ type: JobType.NETWORK_ANALYSIS, userId: 'system', handle: 'alice.test' }).toObject();
+}
+
+test.beforeEach(() => {
+  jobProcessor.registerHandler(JobType.NETWORK_ANALYSIS, async () => {
+    throw new Error('AT Protocol unavailable');
+  });
+  mock.timers.enable({ apis: ['Date', 'setTimeout', 'setInterval'], now: Date.now() });
+});
+
+test.afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+test('a failed job is reclaimed once its backoff has passed', async () => {
+  const record = newJobRecord();
+  useRecord(record);
+
+  const claimed = await processor.getNextJob();
+  assert.ok(claimed);
+  await processor.processJob(claimed);
+
+  assert.equal(record.status, JobStatus.PENDING);
+  assert.equal(record.attempts, 1);
+  assert.equal(record.workerId, undefined);
+  assert.ok(record.nextAttempt > new Date());
+
+  assert.equal(await processor.getNextJob(), null, 'claimed before its backoff passed');
+
+  mock.timers.tick(record.nextAttempt.getTime() - Date.now());
+  const retried = await processor.getNextJob();
+  assert.ok(retried);
+  assert.equal(retried.status, JobStatus.IN_PROGRESS);
+  assert.equal(retried.attempts, 2);
+});
+
+test('a job that fails every attempt is marked failed and not reclaimed', async () => {
+  const record = newJobRecord();
+  useRecord(record);
+
+  for (let attempt = 1; attempt <= QUEUE_LIMITS.MAX_ATTEMPTS; attempt++) {
+    if (record.nextAttempt) {
+      mock.timers.tick(record.nextAttempt.getTime() - Date.now());
+    }
+    const claimed = await processor.getNextJob();
+    assert.ok(claimed, `attempt ${attempt} not claimed`);
+    await processor.processJob(claimed);
+  }
+
+  assert.equal(record.status, JobStatus.FAILED);
+  assert.equal(record.attempts, QUEUE_LIMITS.MAX_ATTEMPTS);
+  assert.equal(record.error, 'AT Protocol unavailable');
+
+  mock.timers.tick(60 * 60 * 1000);
+  assert.equal(await processor.getNextJob(), null);
+});
@@ -1,66 +1,96 @@
 import mongoose from 'mongoose';
-import Job, { JobType, JobStatus, JobDocument, QUEUE_LIMITS } from '../models/Job';
+import os from 'os';
+import crypto from 'crypto';
+import Job, { JobType, JobStatus, JobDocument, QUEUE_LIMITS, JOB_LEASE } from '../models/Job';
 import { AnalysisProgress } from '../../shared/types';
+import { requestQueue, RequestCancelledError } from '../utils/requestQueue';
+import sseHandler from './sseHandler';
+import jobEvents from './jobEvents';
+import queueEstimator from './queueEstimator';
+import progressTracker from './network/progressTracker';
 
 type JobHandler = (job: JobDocument) => Promise<any>;
 
 /**
  * Job Processor Service
  * Handles job queue management and processing
+ * Every process can create and cancel jobs; only started processes (workers) run them.
+ * Workers claim jobs from Mongo, so any number of them can share the queue.
  */
 class JobProcessor {
   private handlers: Map<string, JobHandler>;
   private processingJobs: Set<string>;
+  // Jobs cancelled or taken over by another worker while running; their results are discarded
+  private stoppedJobs: Set<string>;
   private processingInterval: NodeJS.Timeout | null;
+  // Identifies this process on the jobs it holds a lease on
+  private readonly workerId: string;
 
   constructor() {
     this.handlers = new Map();
     this.processingJobs = new Set();
+    this.stoppedJobs = new Set();
     this.processingInterval = null;
+    this.workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
     console.log('[JobProcessor] Initialized');
-    this.startProcessingInterval();
   }
 
   /**
-   * Start the job processing interval
+   * Start running jobs in this process
    */
-  private startProcessingInterval(): void {
+  start(): void {
+    if (this.processingInterval) {
+      return;
+    }
+
     console.log('[JobProcessor] Starting processing interval');
+    console.log(`- Worker ID: ${this.workerId}`);
     // Check for new jobs every 5 seconds
     this.processingInterval = setInterval(() => {
       this.processNextJob();
       this.checkStuckJobs();
     }, 5000);
+
+    // Jobs cancelled from another process stop right away instead of at the next heartbeat
+    jobEvents.subscribe(event => {
+      if (event.type === 'jobStatus' && event.status === JobStatus.CANCELLED &&
+          this.processingJobs.has(event.jobId) && !this.stoppedJobs.has(event.jobId)) {
+        console.log(`[JobProcessor] Job ${event.jobId} was cancelled elsewhere, stopping it`);
+        this.stoppedJobs.add(event.jobId);
+        requestQueue.cancelJob(event.jobId);
+      }
+    });
+
+    this.processNextJob();
   }
 
   /**
-   * Check for stuck jobs and reset them
+   * Filter for jobs whose lease has lapsed
+   * Jobs without a lease (started before leases existed) count as lapsed
+   */
+  private lapsedLease(now: Date) {
+    return { leaseExpiresAt: { $not: { $gt: now } } };
+  }
+
+  /**
+   * Check for stuck jobs, whose worker stopped renewing its lease, and reset them to pending
+   * getNextJob takes them over even before this runs; resetting them shows clients they are waiting again
    */
   private async checkStuckJobs(): Promise<void> {
     try {
       console.log('[JobProcessor] Checking for stuck jobs');
-      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-
-      // Find jobs that have been in_progress for too long
-      const stuckJobs = await Job.find({
-        status: JobStatus.IN_PROGRESS,
-        startedAt: { $lt: fiveMinutesAgo }
-      });
 
-      if (stuckJobs.length > 0) {
-        console.log(`[JobProcessor] Found ${stuckJobs.length} stuck jobs`);
-        
-        for (const job of stuckJobs) {
-          console.log(`[JobProcessor] Resetting stuck job ${job._id}`);
-          console.log(`- Handle: ${job.handle}`);
-          console.log(`- Started at: ${job.startedAt}`);
-          
-          job.status = JobStatus.PENDING;
-          job.startedAt = undefined;
-          await job.save();
-          
-          this.processingJobs.delete(job._id.toString());
+      // A single update, so a lease renewed in the meantime is never reset
+      const result = await Job.updateMany(
+        { status: JobStatus.IN_PROGRESS, ...this.lapsedLease(new Date()) },
+        {
+          $set: { status: JobStatus.PENDING },
+          $unset: { startedAt: 1, leaseExpiresAt: 1 }
         }
+      );
+
+      if (result.modifiedCount > 0) {
+        console.log(`[JobProcessor] Reset ${result.modifiedCount} stuck jobs with lapsed leases`);
       } else {
         console.log('[JobProcessor] No stuck jobs found');
       }
@@ -69,14 +99,38 @@ class JobProcessor {
     }
   }
 
+  /**
+   * Renew the lease on a running job until the returned timer is cleared
+   * If the job is no longer ours (cancelled, or taken over after its lease lapsed), it is stopped
+   * @param jobId Job ID
+   */
+  private startHeartbeat(jobId: string): NodeJS.Timeout {
+    return setInterval(async () => {
+      try {
+        const now = Date.now();
+        const result = await Job.updateOne(
+          { _id: jobId, workerId: this.workerId, status: JobStatus.IN_PROGRESS },
+          { $set: { heartbeatAt: new Date(now), leaseExpiresAt: new Date(now + JOB_LEASE.LEASE_DURATION) } }
+        );
+
+        if (result.matchedCount === 0) {
+          console.log(`[JobProcessor] Lost lease on job ${jobId}, stopping it`);
+          this.stoppedJobs.add(jobId);
+          requestQueue.cancelJob(jobId);
+        }
+      } catch (error) {
+        // The lease stays valid until it expires, so a single failed renewal is harmless
+        console.error(`[JobProcessor] Error renewing lease on job ${jobId}:`, error);
+      }
+    }, JOB_LEASE.HEARTBEAT_INTERVAL);
+  }
+
   /**
    * Register a handler for a specific job type
    */
   registerHandler(type: JobType, handler: JobHandler): void {
     console.log(`[JobProcessor] Registering handler for job type: ${type}`);
     this.handlers.set(type, handler);
-    // Immediately check for pending jobs of this type
-    this.processNextJob();
   }
 
   /**
@@ -101,18 +155,12 @@ class JobProcessor {
       console.log(`- Job ID: ${existingJob._id}`);
       console.log(`- Status: ${existingJob.status}`);
 
-      // If the job is stuck in 'in_progress' state for too long, reset it
-      if (existingJob.status === JobStatus.IN_PROGRESS) {
-        const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-        if (existingJob.startedAt && existingJob.startedAt < fiveMinutesAgo) {
-          console.log(`[JobProcessor] Job appears to be stuck, resetting to pending`);
-          existingJob.status = JobStatus.PENDING;
-          existingJob.startedAt = undefined;
-          await existingJob.save();
-          this.processingJobs.delete(existingJob._id.toString());
-          // Immediately try to process the reset job
-          this.processNextJob();
-        }
+      // If the job's worker stopped renewing its lease, take it over
+      if (existingJob.status === JobStatus.IN_PROGRESS &&
+          (!existingJob.leaseExpiresAt || existingJob.leaseExpiresAt <= new Date())) {
+        console.log(`[JobProcessor] Job lease has lapsed, reclaiming it`);
+        console.log(`- Last heartbeat: ${existingJob.heartbeatAt}`);
+        this.processNextJob();
       }
 
       return existingJob;
@@ -127,7 +175,6 @@ class JobProcessor {
       status: JobStatus.PENDING,
       attempts: 0,
       maxAttempts: QUEUE_LIMITS.MAX_ATTEMPTS,
-      estimatedWaitTime: await this.estimateWaitTime(),
       progress: {
         stage: 'initializing',
         current: 0,
@@ -140,6 +187,7 @@ class JobProcessor {
         }
       }
     });
+    job.estimatedWaitTime = (await queueEstimator.estimate(job)).waitMs;
 
     await job.save();
     console.log(`[JobProcessor] Created new job`);
@@ -178,6 +226,11 @@ class JobProcessor {
    * Process the next available job
    */
   private async processNextJob(): Promise<void> {
+    // Processes that don't run jobs leave them to the workers
+    if (!this.processingInterval) {
+      return;
+    }
+
     try {
       console.log('[JobProcessor] Looking for next job to process');
 
@@ -197,22 +250,58 @@ class JobProcessor {
   }
 
   /**
-   * Get the next job to process
+   * Claim the next job to process
+   * Pending jobs and jobs whose lease has lapsed are claimed in a single atomic update,
+   * so two workers never get the same job
    */
   private async getNextJob(): Promise<JobDocument | null> {
-    // Get jobs that aren't being processed and are pending
-    const job = await Job.findOne({
-      _id: { $nin: Array.from(this.processingJobs) },
-      status: JobStatus.PENDING,
-      type: JobType.NETWORK_ANALYSIS,
-      $or: [
-        { nextAttempt: { $exists: false } },
-        { nextAttempt: { $lte: new Date() } }
-      ]
-    }).sort({ priority: -1, createdAt: 1 });
+    const now = new Date();
+
+    // Jobs running in any worker count toward the limit
+    const running = await Job.countDocuments({
+      status: JobStatus.IN_PROGRESS,
+      leaseExpiresAt: { $gt: now }
+    });
+    if (running >= QUEUE_LIMITS.MAX_CONCURRENT_JOBS) {
+      console.log(`[JobProcessor] ${running} jobs already running, not claiming another`);
+      return null;
+    }
+
+    const job = await Job.findOneAndUpdate(
+      {
+        _id: { $nin: Array.from(this.processingJobs) },
+        type: JobType.NETWORK_ANALYSIS,
+        $or: [
+          {
+            status: JobStatus.PENDING,
+            $or: [
+              { nextAttempt: { $exists: false } },
+              { nextAttempt: { $lte: now } }
+            ]
+          },
+          { status: JobStatus.IN_PROGRESS, ...this.lapsedLease(now) }
+        ]
+      },
+      {
+        $set: {
+          status: JobStatus.IN_PROGRESS,
+          startedAt: now,
+          workerId: this.workerId,
+          heartbeatAt: now,
+          leaseExpiresAt: new Date(now.getTime() + JOB_LEASE.LEASE_DURATION)
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { priority: -1, createdAt: 1 }, new: true }
+    );
+
+    // Workers that claimed at the same time may overshoot the limit: the later claims give their job back
+    if (job && !(await this.withinConcurrencyLimit(job))) {
+      return null;
+    }
 
     if (job) {
-      console.log('[JobProcessor] Found job to process');
+      console.log('[JobProcessor] Claimed job to process');
       console.log(`- Job ID: ${job._id}`);
       console.log(`- Type: ${job.type}`);
       console.log(`- Handle: ${job.handle}`);
@@ -224,6 +313,32 @@ class JobProcessor {
     return job;
   }
 
+  /**
+   * Check that a freshly claimed job fits in the concurrency limit, releasing it if not
+   * @param job Claimed job
+   */
+  private async withinConcurrencyLimit(job: JobDocument): Promise<boolean> {
+    const runningBefore = await Job.countDocuments({
+      status: JobStatus.IN_PROGRESS,
+      leaseExpiresAt: { $gt: new Date() },
+      startedAt: { $lte: job.startedAt }
+    });
+    if (runningBefore <= QUEUE_LIMITS.MAX_CONCURRENT_JOBS) {
+      return true;
+    }
+
+    console.log(`[JobProcessor] Concurrency limit reached, releasing job ${job._id}`);
+    await Job.updateOne(
+      { _id: job._id, workerId: this.workerId },
+      {
+        $set: { status: JobStatus.PENDING },
+        $unset: { startedAt: 1, workerId: 1, heartbeatAt: 1, leaseExpiresAt: 1 },
+        $inc: { attempts: -1 }
+      }
+    );
+    return false;
+  }
+
   /**
    * Process a single job
    */
@@ -241,6 +356,7 @@ class JobProcessor {
     }
     
     this.processingJobs.add(jobId);
+    const heartbeat = this.startHeartbeat(jobId);
 
     try {
       // Log the available handlers and the job type for debugging
@@ -252,40 +368,65 @@ class JobProcessor {
         throw new Error(`No handler registered for job type: ${job.type}`);
       }
 
-      // Update job status
-      job.status = JobStatus.IN_PROGRESS;
-      job.startedAt = new Date();
-      job.attempts += 1;
-      await job.save();
-      console.log(`[JobProcessor] Updated job status to IN_PROGRESS`);
-
-      // Execute handler
+      // Execute handler; its API requests are tagged with the job so they can be cancelled together
       console.log(`[JobProcessor] Executing job handler`);
-      const result = await handler(job);
+      let requests = 0;
+      const result = await requestQueue.runJob(jobId, async () => {
+        const output = await handler(job);
+        requests = requestQueue.getRequestCount(jobId);
+        return output;
+      });
       console.log(`[JobProcessor] Job handler execution completed`);
       console.log('- Result:', result);
 
+      // A job cancelled or taken over while its last requests were in flight is left alone
+      if (this.stoppedJobs.has(jobId)) {
+        console.log(`[JobProcessor] Job ${jobId} was stopped, discarding its result`);
+        return;
+      }
+
       // Store result in job data
       job.data = result;
+
+      // Keep what the job took, to estimate the wait of queued jobs
+      // Jobs answered from a cached analysis did not crawl and would skew the estimate
+      if (result?.stats && job.startedAt && !result.fromCache) {
+        job.metrics = {
+          durationMs: Date.now() - job.startedAt.getTime(),
+          connections: (result.stats.followers || 0) + (result.stats.following || 0),
+          requests
+        };
+      }
       
-      // Complete job
+      // Complete job, unless it was cancelled or taken over by another worker since the check above
       console.log(`[JobProcessor] Completing job ${jobId}`);
-      await job.complete();
+      if (!(await job.complete())) {
+        console.log(`[JobProcessor] Job ${jobId} lost its lease, discarding its result`);
+        return;
+      }
       console.log(`[JobProcessor] Job ${jobId} completed successfully`);
 
     } catch (error) {
+      if (this.stoppedJobs.has(jobId) || error instanceof RequestCancelledError) {
+        console.log(`[JobProcessor] Job ${jobId} stopped after cancellation or losing its lease`);
+        return;
+      }
+
       console.error(`[JobProcessor] Error processing job ${jobId}:`, error);
 
-      // Handle job failure
+      // Retry until the job runs out of attempts; a job that lost its lease belongs to whoever holds it now
       if (job.attempts >= job.maxAttempts) {
         console.log(`[JobProcessor] Job ${jobId} failed after max attempts`);
-        await job.fail(error instanceof Error ? error.message : 'Unknown error');
+        if (!(await job.fail(error instanceof Error ? error.message : 'Unknown error'))) {
+          console.log(`[JobProcessor] Job ${jobId} lost its lease, not marking it failed`);
+        }
       } else {
         // Calculate next attempt time with exponential backoff
         const backoff = Math.pow(2, job.attempts) * 1000;
-        job.nextAttempt = new Date(Date.now() + backoff);
-        job.status = JobStatus.FAILED;
-        await job.save();
+        if (!(await job.scheduleRetry(new Date(Date.now() + backoff)))) {
+          console.log(`[JobProcessor] Job ${jobId} lost its lease, not scheduling a retry`);
+          return;
+        }
 
         console.log(`[JobProcessor] Scheduling retry for job ${jobId}`);
         console.log(`- Next attempt: ${job.nextAttempt}`);
@@ -295,20 +436,44 @@ class JobProcessor {
         setTimeout(() => this.processNextJob(), backoff);
       }
     } finally {
+      clearInterval(heartbeat);
       this.processingJobs.delete(jobId);
+      this.stoppedJobs.delete(jobId);
     }
   }
 
   /**
-   * Estimate wait time for new jobs
+   * Cancel a pending or running job
+   * Its queued API requests are dropped and clients get a final status event
+   * @param jobId Job ID
+   * @returns The job, or null if there is no such job
    */
-  private async estimateWaitTime(): Promise<number> {
-    const activeJobs = await Job.countDocuments({
-      status: { $in: [JobStatus.PENDING, JobStatus.IN_PROGRESS] }
-    });
+  async cancelJob(jobId: string): Promise<JobDocument | null> {
+    console.log(`[JobProcessor] Cancelling job ${jobId}`);
+
+    const job = await Job.findById(jobId);
+    if (!job) {
+      console.log(`[JobProcessor] Job ${jobId} not found`);
+      return null;
+    }
+
+    if (job.status !== JobStatus.PENDING && job.status !== JobStatus.IN_PROGRESS) {
+      console.log(`[JobProcessor] Job ${jobId} already finished with status ${job.status}`);
+      return job;
+    }
+
+    if (this.processingJobs.has(jobId)) {
+      this.stoppedJobs.add(jobId);
+    }
+    await job.cancel();
+    requestQueue.cancelJob(jobId);
+
+    sseHandler.updateJobProgress(jobId, job.progress || progressTracker.createInitialProgress());
+    sseHandler.updateJobStatus(jobId, JobStatus.CANCELLED);
 
-    // Rough estimate: 30 seconds per job in queue
-    return activeJobs * 30000;
+    console.log(`[JobProcessor] Job ${jobId} cancelled`);
+    console.log(`- Handle: ${job.handle}`);
+    return job;
   }
 
   /**
@@ -322,6 +487,24 @@ class JobProcessor {
       clearInterval(this.processingInterval);
       this.processingInterval = null;
     }
+
+    // Hand running jobs back to the queue; another worker resumes them from their checkpoint
+    const running = Array.from(this.processingJobs);
+    running.forEach(jobId => {
+      this.stoppedJobs.add(jobId);
+      requestQueue.cancelJob(jobId);
+    });
+
+    if (running.length > 0) {
+      const result = await Job.updateMany(
+        { workerId: this.workerId, status: JobStatus.IN_PROGRESS },
+        {
+          $set: { status: JobStatus.PENDING },
+          $unset: { startedAt: 1, workerId: 1, leaseExpiresAt: 1 }
+        }
+      );
+      console.log(`[JobProcessor] Released ${result.modifiedCount} running jobs`);
+    }
   }
 }
 
@@ -0,0 +1,71 @@
+import {
+  NetworkData,
+  NetworkAnalysisResult,
+  CommunityDetectionOptions,
+  UserProfile
+} from '../../../shared/types';
+import graphProcessor from '../graphProcessor';
+import centralityProcessor from '../centralityProcessor';
+import communityLabeler from '../communityLabeler';
+
+// Everything an analysis derives from the graph itself
+export type GraphMetrics = Pick<
+  NetworkAnalysisResult,
+  'communities' | 'modularity' | 'hierarchy' | 'algorithm' | 'resolution' | 'seed' | 'centrality' | 'bridges'
+>;
+
+/**
+ * GraphAnalyzer
+ * Runs community detection, labelling, centrality and bridge detection on a built graph,
+ * whether it came from the Bluesky API or from an imported file
+ */
+class GraphAnalyzer {
+  /**
+   * Analyse a graph
+   * @param graph Network graph
+   * @param profiles Profiles whose bios name the communities
+   * @param options Community detection options
+   * @param centralNodeId Node linked to every other node, ignored by bridge detection
+   */
+  analyze(
+    graph: NetworkData,
+    profiles: Pick<UserProfile, 'did' | 'displayName' | 'description'>[],
+    options: CommunityDetectionOptions,
+    centralNodeId?: string
+  ): GraphMetrics {
+    console.log(`[GraphAnalyzer] Analysing graph`);
+    console.log(`- Nodes: ${graph.nodes.length}`);
+    console.log(`- Edges: ${graph.edges.length}`);
+
+    const detection = graphProcessor.detectCommunities(graph, options);
+
+    // Name every community, at every hierarchy level, after its members' bios
+    const communities = communityLabeler.labelCommunities(detection.communities, profiles);
+    const hierarchy = detection.levels.map(level => ({
+      ...level,
+      communities: communityLabeler.labelCommunities(level.communities, profiles)
+    }));
+
+    const centrality = centralityProcessor.calculateCentrality(graph);
+    const bridges = graphProcessor.detectBridges(graph, communities, centralNodeId);
+
+    console.log(`[GraphAnalyzer] Analysis complete`);
+    console.log(`- Communities: ${communities.length}`);
+    console.log(`- Bridges: ${bridges.bridgeNodes.length}`);
+
+    return {
+      communities,
+      modularity: detection.modularity,
+      hierarchy,
+      algorithm: detection.algorithm,
+      resolution: detection.resolution,
+      seed: detection.seed,
+      centrality,
+      bridges
+    };
+  }
+}
+
+// Create and export singleton instance
+const graphAnalyzer = new GraphAnalyzer();
+export default graphAnalyzer;
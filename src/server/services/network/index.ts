@@ -1,9 +1,11 @@
 import { JobDocument, JobType } from '../../models/Job';
-import { NetworkAnalysisResult } from '../../../shared/types';
+import { NetworkAnalysisResult, AnalysisProgress } from '../../../shared/types';
 import jobHandler from './jobHandler';
-import networkBuilder from './networkBuilder';
+import networkBuilder, { NetworkBuildResult } from './networkBuilder';
 import mutualChecker from './mutualChecker';
 import progressTracker from './progressTracker';
+import snapshotService from './snapshotService';
+import networkImporter from './networkImporter';
 
 /**
  * NetworkAnalyzer
@@ -69,8 +71,8 @@ class NetworkAnalyzer {
     userId: string,
     handle: string,
     mutuals: { did: string; handle: string }[],
-    updateProgress: (progress: any) => Promise<void>
-  ): Promise<any> {
+    updateProgress: (progress: AnalysisProgress) => Promise<void>
+  ): Promise<NetworkBuildResult> {
     console.log(`[NetworkAnalyzer] Building network for ${handle}`);
     return networkBuilder.buildCompleteNetwork(userId, handle, mutuals, updateProgress);
   }
@@ -92,5 +94,7 @@ export {
   jobHandler,
   networkBuilder,
   mutualChecker,
-  progressTracker
+  progressTracker,
+  snapshotService,
+  networkImporter
 };
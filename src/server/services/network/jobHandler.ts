@@ -1,18 +1,23 @@
 import atprotoService, { 
   getProfile, 
-  getFollowers, 
-  getFollowing,
   isAuthenticated,
   initialize
 } from '../atproto/index';
-import { JobDocument, JobType, JobStatus } from '../../models/Job';
-import { NetworkAnalysisResult, AnalysisProgress } from '../../../shared/types';
-import { CACHE_DURATIONS } from '../../models/Cache';
+import { JobDocument, JobType } from '../../models/Job';
+import {
+  NetworkAnalysisResult,
+  AnalysisProgress,
+  CommunityDetectionOptions,
+  ConnectionData
+} from '../../../shared/types';
+import { CACHE_DURATIONS, isCacheValid } from '../../models/Cache';
 import cacheService from '../cacheService';
 import graphProcessor from '../graphProcessor';
 import networkBuilder from './networkBuilder';
+import graphAnalyzer from './graphAnalyzer';
 import progressTracker from './progressTracker';
-import { requestQueue } from '../../utils/requestQueue';
+import snapshotService from './snapshotService';
+import { requestQueue, RequestCancelledError } from '../../utils/requestQueue';
 import { BskyFollower, BskyProfile } from '../atproto/interfaces';
 
 // Define an interface for the job processor to ensure type safety
@@ -67,27 +72,35 @@ class NetworkAnalysisService {
   }
 
   /**
-   * Retrieve followers and following with rate limiting
-   * @param handle User's handle
+   * Retrieve followers and following, refreshing the cached lists incrementally
+   * Full fetches are checkpointed in the job, and resumed from its last checkpoint
+   * @param profile User's profile, whose counts tell whether the cached lists are current
+   * @param job Job whose checkpoint is used
    * @private
    */
-  private async fetchConnections(handle: string): Promise<{
+  private async fetchConnections(profile: BskyProfile, job: JobDocument): Promise<{
     followers: BskyFollower[], 
     following: BskyFollower[]
   }> {
+    const handle = profile.handle;
     console.log(`[NetworkAnalysis] Starting connection fetch for handle: ${handle}`);
     try {
-      console.log(`[NetworkAnalysis] Queuing follower request for ${handle}`);
-      const followersPromise = requestQueue.queueRequest(() => getFollowers(handle)) as Promise<BskyFollower[]>;
-      
-      console.log(`[NetworkAnalysis] Queuing following request for ${handle}`);
-      const followingPromise = requestQueue.queueRequest(() => getFollowing(handle)) as Promise<BskyFollower[]>;
-      
-      const [followers, following] = await Promise.all([followersPromise, followingPromise]);
+      const [followerRefresh, followingRefresh] = await Promise.all([
+        cacheService.refreshUserConnections(profile.did, 'follower', profile.followersCount, {
+          resumeFrom: job.checkpoint?.follower,
+          save: checkpoint => job.saveListCheckpoint('follower', checkpoint)
+        }),
+        cacheService.refreshUserConnections(profile.did, 'following', profile.followsCount, {
+          resumeFrom: job.checkpoint?.following,
+          save: checkpoint => job.saveListCheckpoint('following', checkpoint)
+        })
+      ]);
+      const followers = followerRefresh.connections.map(connection => this.toFollower(connection));
+      const following = followingRefresh.connections.map(connection => this.toFollower(connection));
 
       console.log(`[NetworkAnalysis] Connection fetch complete for ${handle}:`);
-      console.log(`- Followers: ${followers.length}`);
-      console.log(`- Following: ${following.length}`);
+      console.log(`- Followers: ${followers.length} (${followerRefresh.fetched} fetch)`);
+      console.log(`- Following: ${following.length} (${followingRefresh.fetched} fetch)`);
       
       return { followers, following };
     } catch (error) {
@@ -96,6 +109,26 @@ class NetworkAnalysisService {
     }
   }
 
+  /**
+   * Convert a cached connection back to the API follower shape
+   * @param connection Cached connection
+   * @private
+   */
+  private toFollower(connection: ConnectionData): BskyFollower {
+    const { profile } = connection;
+    return {
+      did: connection.connectionId,
+      handle: profile.handle,
+      displayName: profile.displayName,
+      avatar: profile.avatar,
+      description: profile.description,
+      followersCount: profile.followersCount,
+      followingCount: profile.followingCount,
+      followsCount: profile.followingCount,
+      postsCount: profile.postsCount
+    };
+  }
+
   /**
    * Find mutual connections between followers and following
    * @param followers User's followers
@@ -110,9 +143,8 @@ class NetworkAnalysisService {
     console.log(`- Total followers: ${followers.length}`);
     console.log(`- Total following: ${following.length}`);
 
-    const mutuals = followers.filter((follower: BskyFollower) =>
-      following.some((follow: BskyFollower) => follow.did === follower.did)
-    );
+    const followingIds = new Set(following.map((follow: BskyFollower) => follow.did));
+    const mutuals = followers.filter((follower: BskyFollower) => followingIds.has(follower.did));
 
     console.log(`[NetworkAnalysis] Mutual connection analysis complete`);
     console.log(`- Found ${mutuals.length} mutual connections`);
@@ -142,6 +174,7 @@ class NetworkAnalysisService {
         handle: m.handle,
         displayName: m.displayName || m.handle,
         avatar: m.avatar,
+        description: m.description || '',
         followersCount: m.followersCount || 0,
         followingCount: m.followsCount || 0,
         postsCount: m.postsCount || 0,
@@ -153,6 +186,21 @@ class NetworkAnalysisService {
     return connectionData;
   }
 
+  /**
+   * Check whether a cached analysis was produced with the requested detection options
+   * @param analysis Cached analysis
+   * @param options Requested community detection options
+   * @private
+   */
+  private matchesDetectionOptions(
+    analysis: NetworkAnalysisResult,
+    options: CommunityDetectionOptions
+  ): boolean {
+    return (analysis.algorithm || 'louvain') === (options.algorithm || 'louvain') &&
+      (analysis.resolution ?? 1) === (options.resolution ?? 1) &&
+      (options.seed === undefined || analysis.seed === options.seed);
+  }
+
   /**
    * Process network analysis job
    * @param job Job document to process
@@ -162,16 +210,16 @@ class NetworkAnalysisService {
     console.log(`- Job ID: ${job.id}`);
     console.log(`- Handle: ${job.handle}`);
     console.log(`- Force update: ${job.data.force}`);
+    console.log(`- Algorithm: ${job.data.algorithm || 'louvain'}`);
+    console.log(`- Resolution: ${job.data.resolution ?? 1}`);
+    console.log(`- Seed: ${job.data.seed ?? 'random'}`);
+    console.log(`- Resuming: ${!!job.checkpoint}`);
 
-    const { force } = job.data;
+    const { force, algorithm = 'louvain', resolution, seed } = job.data;
+    const detectionOptions: CommunityDetectionOptions = { algorithm, resolution, seed };
     const handle = job.handle;
 
     try {
-      // Reset job to pending state to allow processing
-      job.status = JobStatus.PENDING;
-      await job.save();
-      console.log(`[NetworkAnalysis] Job status set to PENDING`);
-
       // Step 1: Initialize AT Protocol
       console.log('[NetworkAnalysis] Step 1: Initializing AT Protocol');
       await this.initializeAtProtocol();
@@ -191,16 +239,34 @@ class NetworkAnalysisService {
       // Step 2: Fetch profile and check cache
       console.log('[NetworkAnalysis] Step 2: Profile and cache check');
       const profile = await this.fetchUserProfile(handle);
-      const cachedMutuals = await cacheService.getMutualConnections(profile.did);
+      const previousAnalysis = await cacheService.getMutualConnections(profile.did, {
+        duration: CACHE_DURATIONS.LONG_TERM
+      });
+      const cachedMutuals = previousAnalysis &&
+        isCacheValid(new Date(previousAnalysis.lastUpdated), CACHE_DURATIONS.MEDIUM_TERM)
+        ? previousAnalysis
+        : null;
       
-      if (cachedMutuals && !force) {
+      // A cached result only counts if it was produced with the requested detection options
+      // and already carries the graph, centrality scores and bridge analysis
+      if (cachedMutuals && !force && cachedMutuals.graph?.nodes?.length &&
+          cachedMutuals.centrality?.length && cachedMutuals.bridges &&
+          this.matchesDetectionOptions(cachedMutuals, detectionOptions)) {
         console.log('[NetworkAnalysis] Using cached mutual connections');
-        return cachedMutuals;
+        return { ...cachedMutuals, fromCache: true };
+      }
+
+      // Refreshes start community detection from the previous partition, unless an explicit seed
+      // asks for a reproducible run or the partition came from other detection options
+      if (previousAnalysis?.communities?.length && detectionOptions.seed === undefined &&
+          this.matchesDetectionOptions(previousAnalysis, detectionOptions)) {
+        console.log(`[NetworkAnalysis] Seeding community detection with ${previousAnalysis.communities.length} previous communities`);
+        detectionOptions.initialCommunities = previousAnalysis.communities;
       }
 
       // Step 3: Fetch and process connections
       console.log('[NetworkAnalysis] Step 3: Connection processing');
-      const { followers, following } = await this.fetchConnections(handle);
+      const { followers, following } = await this.fetchConnections(profile, job);
       const mutuals = this.findMutualConnections(followers, following);
 
       await progressTracker.updateProgress(
@@ -216,7 +282,7 @@ class NetworkAnalysisService {
         }
       );
 
-      // Step 4: Build network
+      // Step 4: Build network (follow lists of mutuals for second-degree edges)
       console.log('[NetworkAnalysis] Step 4: Network building');
       const network = await networkBuilder.buildCompleteNetwork(
         profile.did,
@@ -227,11 +293,18 @@ class NetworkAnalysisService {
           'analyzing',
           2,
           4,
-          'Analyzing mutual connections',
+          progress.message,
           progress.details
-        )
+        ),
+        {
+          completed: job.checkpoint?.completedMutuals || [],
+          save: completed => job.addCompletedMutuals(completed)
+        }
       );
 
+      // Stop before the analysis if the job was cancelled while its last requests were in flight
+      requestQueue.throwIfCancelled();
+
       // Step 5: Create connection data and network graph
       console.log('[NetworkAnalysis] Step 5: Graph processing');
       const connectionData = this.prepareConnectionData(profile.did, mutuals);
@@ -240,12 +313,23 @@ class NetworkAnalysisService {
         [], // No regular followers
         [], // No regular following
         connectionData,
-        network.edges
+        network.edges,
+        {
+          handle: profile.handle,
+          displayName: profile.displayName,
+          avatar: profile.avatar
+        }
       );
 
-      // Step 6: Detect communities
-      console.log('[NetworkAnalysis] Step 6: Community detection');
-      const communities = graphProcessor.detectCommunities(networkGraph);
+      // Step 6: Communities, centrality and bridges, ignoring the analysed user who links to every community
+      console.log('[NetworkAnalysis] Step 6: Graph analysis');
+      const metrics = graphAnalyzer.analyze(
+        networkGraph,
+        connectionData.map(connection => connection.profile),
+        detectionOptions,
+        profile.did
+      );
+      const { communities } = metrics;
 
       await progressTracker.updateProgress(
         job.id.toString(),
@@ -255,7 +339,7 @@ class NetworkAnalysisService {
         'Processing final results',
         {
           processedNodes: followers.length + following.length,
-          processedEdges: mutuals.length,
+          processedEdges: networkGraph.edges.length,
           discoveredCommunities: communities.length
         }
       );
@@ -270,17 +354,26 @@ class NetworkAnalysisService {
           following: following.length,
           mutuals: mutuals.length,
         },
-        communities,
+        ...metrics,
+        graph: networkGraph,
         lastUpdated: new Date().toISOString(),
       };
 
       // Store and return analysis
+      requestQueue.throwIfCancelled();
       console.log('[NetworkAnalysis] Storing analysis results');
       await cacheService.storeNetworkAnalysis(analysis, {
         duration: CACHE_DURATIONS.LONG_TERM,
         force: true,
       });
 
+      // Keep every completed analysis as history; losing a snapshot must not fail the job
+      try {
+        await snapshotService.createSnapshot(analysis, { followers, following, mutuals });
+      } catch (error) {
+        console.error('[NetworkAnalysis] Failed to store snapshot:', error);
+      }
+
       await progressTracker.updateProgress(
         job.id.toString(),
         'completed',
@@ -299,6 +392,12 @@ class NetworkAnalysisService {
       return analysis;
 
     } catch (error: unknown) {
+      // Cancellation is not a failure; the job has already been marked cancelled
+      if (error instanceof RequestCancelledError) {
+        console.log(`[NetworkAnalysis] Job ${job.id} cancelled`);
+        throw error;
+      }
+
       const errorMessage = error instanceof Error 
         ? error.message 
         : 'An unknown error occurred during network analysis';
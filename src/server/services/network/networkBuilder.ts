@@ -1,16 +1,39 @@
-import atprotoService, { 
-  getProfile, 
-  getFollowers, 
-  getFollowing 
-} from '../atproto/index';
-import mutualChecker from './mutualChecker';
-import progressTracker from './progressTracker';
-import { BskyFollower } from '../atproto/interfaces';
-import { requestQueue } from '../../utils/requestQueue';
-import { AnalysisStage } from '../../../shared/types';
+import cacheService from '../cacheService';
+import atprotoService, { MAX_PROFILES_PER_REQUEST } from '../atproto/index';
+import { requestQueue, RequestCancelledError } from '../../utils/requestQueue';
+import { BskyProfile } from '../atproto/interfaces';
+import { AnalysisProgress, ConnectionData, NetworkEdge } from '../../../shared/types';
 
-// Define total steps as a constant
-const TOTAL_STEPS = 4;
+// Number of mutual follow lists fetched side by side.
+// The request queue still enforces the API rate limit across all of them.
+const FOLLOW_LIST_BATCH_SIZE = 5;
+
+export interface MutualEdge {
+  source: string;
+  target: string;
+  type: NetworkEdge['type'];
+}
+
+// Lets an interrupted network build skip the mutuals it already fetched
+export interface MutualCheckpoint {
+  completed: string[]; // DIDs of mutuals whose follow lists were fetched before
+  save: (completed: string[]) => Promise<void>; // record mutuals fetched since
+}
+
+export interface NetworkBuildResult {
+  userId: string;
+  handle: string;
+  edges: MutualEdge[];
+  stats: {
+    mutualsProcessed: number;
+    mutualsFailed: number;
+    followListsReused: number;
+    followListsFetched: number;
+    mutualEdges: number;
+    followEdges: number;
+    unresolvedEdges: number; // follows left out because the target's follow list could not be fetched
+  };
+}
 
 /**
  * NetworkBuilder
@@ -18,237 +41,225 @@ const TOTAL_STEPS = 4;
  */
 class NetworkBuilder {
   /**
-   * Build a complete network for a given handle
-   * Provides a comprehensive network analysis with detailed progress tracking
+   * Current follows count of every mutual, fetched 25 profiles per request
+   * Mutuals in a batch that fails are left out and get their follow list the old way
+   */
+  private async fetchFollowsCounts(mutuals: { did: string; handle: string }[]): Promise<Map<string, number>> {
+    const followsCounts = new Map<string, number>();
+
+    for (let i = 0; i < mutuals.length; i += MAX_PROFILES_PER_REQUEST) {
+      const actors = mutuals.slice(i, i + MAX_PROFILES_PER_REQUEST).map(mutual => mutual.did);
+      try {
+        const profiles = await requestQueue.queueRequest(() =>
+          atprotoService.getProfiles(actors)
+        ) as BskyProfile[];
+        profiles.forEach(profile => followsCounts.set(profile.did, profile.followsCount));
+      } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          throw error;
+        }
+        console.error(`[NetworkBuilder] Failed to fetch profiles ${i + 1}-${i + actors.length}:`, error);
+      }
+    }
+
+    console.log(`[NetworkBuilder] Fetched follows counts for ${followsCounts.size}/${mutuals.length} mutuals`);
+    return followsCounts;
+  }
+
+  /**
+   * Build the second-degree network for a given handle
+   * Fetches the follow list of every mutual (cached in ConnectionCache) and
+   * emits the edges between mutuals, so the graph is more than a star.
+   * Follow lists are refreshed incrementally: only mutuals whose follows count
+   * changed since their list was cached are fetched again.
+   * With a checkpoint, mutuals completed by an earlier run are read from the cache
+   * and every finished batch is recorded.
    */
   async buildCompleteNetwork(
-    userId: string, 
-    handle: string, 
+    userId: string,
+    handle: string,
     mutuals: { did: string; handle: string }[],
-    updateProgress: (progress: any) => Promise<void>
-  ): Promise<any> {
+    updateProgress: (progress: AnalysisProgress) => Promise<void>,
+    checkpoint?: MutualCheckpoint
+  ): Promise<NetworkBuildResult> {
     console.log(`[NetworkBuilder] Starting network build`);
     console.log(`- User ID: ${userId}`);
     console.log(`- Handle: ${handle}`);
     console.log(`- Initial mutuals: ${mutuals.length}`);
 
-    // Track current step for progress
-    let currentStep = 0;
-    let processedNodes = 0;
-    let processedEdges = 0;
-    let discoveredCommunities = 0;
-
-    try {
-      // Update initial progress
-      console.log('[NetworkBuilder] Initializing progress tracking');
-      await updateProgress({
-        stage: 'initializing' as AnalysisStage,
-        current: currentStep,
-        total: TOTAL_STEPS,
-        message: `Starting network analysis for ${handle}`,
-        details: {
-          processedNodes,
-          processedEdges,
-          discoveredCommunities
-        }
-      });
+    const mutualIds = new Set(mutuals.map(mutual => mutual.did));
+    const followsByMutual = new Map<string, Set<string>>();
+    let processedMutuals = 0;
+    let failedMutuals = 0;
+    let reusedLists = 0;
+    let discoveredEdges = 0;
 
-      // Fetch user profile
-      console.log('[NetworkBuilder] Fetching user profile');
-      const profile = await requestQueue.queueRequest(() => 
-        getProfile(handle)
+    // Only follows inside the mutual circle are relevant for the graph
+    const addFollows = (mutual: { did: string }, following: ConnectionData[]) => {
+      const followsInCircle = new Set(
+        following
+          .map(connection => connection.connectionId)
+          .filter(id => id !== mutual.did && mutualIds.has(id))
       );
-      currentStep++;
-      processedNodes = 1; // Count the user's profile as first node
-
-      console.log('[NetworkBuilder] Profile fetched');
-      console.log(`- Profile DID: ${profile.did}`);
-      console.log(`- Processed nodes: ${processedNodes}`);
+      followsByMutual.set(mutual.did, followsInCircle);
+      discoveredEdges += followsInCircle.size;
+    };
 
-      // Update progress after profile fetch
+    try {
       await updateProgress({
-        stage: 'profile' as AnalysisStage,
-        current: currentStep,
-        total: TOTAL_STEPS,
-        message: `Fetched profile for ${handle}`,
+        stage: 'collecting',
+        current: 0,
+        total: mutuals.length,
+        message: `Fetching follow lists for ${mutuals.length} mutuals`,
         details: {
-          processedNodes,
-          processedEdges,
-          discoveredCommunities
+          processedNodes: 0,
+          processedEdges: 0,
+          discoveredCommunities: 0
         }
       });
 
-      // Fetch followers and following
-      console.log('[NetworkBuilder] Fetching connections');
-      const [followers, following] = await Promise.all([
-        requestQueue.queueRequest(() => getFollowers(handle)) as Promise<BskyFollower[]>,
-        requestQueue.queueRequest(() => getFollowing(handle)) as Promise<BskyFollower[]>
-      ]);
-      currentStep++;
-      processedNodes += followers.length + following.length;
-
-      console.log('[NetworkBuilder] Connections fetched');
-      console.log(`- Followers: ${followers.length}`);
-      console.log(`- Following: ${following.length}`);
-      console.log(`- Total processed nodes: ${processedNodes}`);
-
-      // Update progress after connections fetch
-      await updateProgress({
-        stage: 'connections' as AnalysisStage,
-        current: currentStep,
-        total: TOTAL_STEPS,
-        message: `Fetched ${followers.length} followers and ${following.length} following`,
-        details: {
-          processedNodes,
-          processedEdges,
-          discoveredCommunities
+      // Follow lists fetched by an earlier run count as done if they are still fully cached
+      const pending: { did: string; handle: string }[] = [];
+      if (checkpoint?.completed.length) {
+        const completed = new Set(checkpoint.completed);
+        for (const mutual of mutuals) {
+          const following = completed.has(mutual.did)
+            ? await cacheService.getCompleteConnections(mutual.did, 'following')
+            : null;
+          if (following) {
+            addFollows(mutual, following);
+            processedMutuals++;
+            reusedLists++;
+          } else {
+            pending.push(mutual);
+          }
         }
-      });
+        console.log(`[NetworkBuilder] Resuming with ${processedMutuals}/${mutuals.length} mutuals done`);
+      } else {
+        pending.push(...mutuals);
+      }
 
-      // Check mutual connections
-      console.log('[NetworkBuilder] Checking mutual connections');
-      let processedConnections = 0;
-      const totalConnections = following.length;
-      
-      const mutualConnections = await Promise.all(
-        following.map(async (connection: BskyFollower) => {
-          console.log(`- Checking mutual status for: ${connection.handle}`);
-          const isMutual = await mutualChecker.areMutuallyConnected(handle, connection.handle);
-          
-          // Update progress for each processed connection
-          processedConnections++;
-          processedEdges = mutuals.filter(m => m.did === connection.did).length;
-          
-          await updateProgress({
-            stage: 'analyzing' as AnalysisStage,
-            current: currentStep,
-            total: TOTAL_STEPS,
-            message: `Analyzing connections (${processedConnections}/${totalConnections})`,
-            details: {
-              processedNodes,
-              processedEdges,
-              discoveredCommunities
-            }
-          });
+      const followsCounts = await this.fetchFollowsCounts(pending);
 
-          return {
-            ...connection,
-            isMutual
-          };
-        })
-      );
-      currentStep++;
-      processedEdges = mutualConnections.filter(conn => conn.isMutual).length;
+      for (let i = 0; i < pending.length; i += FOLLOW_LIST_BATCH_SIZE) {
+        requestQueue.throwIfCancelled();
+        const batch = pending.slice(i, i + FOLLOW_LIST_BATCH_SIZE);
+        const fetchedDids: string[] = [];
 
-      console.log('[NetworkBuilder] Mutual check complete');
-      console.log(`- Total mutual connections: ${processedEdges}`);
+        await Promise.all(batch.map(async mutual => {
+          try {
+            const followsCount = followsCounts.get(mutual.did);
+            let following: ConnectionData[];
+            if (followsCount === undefined) {
+              following = await cacheService.getUserConnections(mutual.did, 'following');
+            } else {
+              const refresh = await cacheService.refreshUserConnections(mutual.did, 'following', followsCount);
+              following = refresh.connections;
+              if (refresh.fetched === 'none') {
+                reusedLists++;
+              }
+            }
 
-      // Update progress after mutual connections
-      await updateProgress({
-        stage: 'analyzing' as AnalysisStage,
-        current: currentStep,
-        total: TOTAL_STEPS,
-        message: 'Analyzing mutual connections',
-        details: {
-          processedNodes,
-          processedEdges,
-          discoveredCommunities
-        }
-      });
+            addFollows(mutual, following);
+            fetchedDids.push(mutual.did);
+          } catch (error) {
+            // A cancelled job stops; a single unavailable account (deleted, suspended, blocked) must not fail it
+            if (error instanceof RequestCancelledError) {
+              throw error;
+            }
+            failedMutuals++;
+            console.error(`[NetworkBuilder] Failed to fetch follow list for ${mutual.handle}:`, error);
+          } finally {
+            processedMutuals++;
+          }
+        }));
 
-      // Analyze network
-      console.log('[NetworkBuilder] Analyzing network');
-      const networkAnalysis = {
-        totalConnections: mutualConnections.length,
-        mutualConnections: mutualConnections.filter(conn => conn.isMutual).length,
-        networkCompleteness: this.calculateNetworkCompleteness({
-          profile, 
-          followers, 
-          following: mutualConnections
-        })
-      };
+        await checkpoint?.save(fetchedDids);
 
-      // Set discovered communities (for now just one community containing all mutuals)
-      discoveredCommunities = 1;
+        await updateProgress({
+          stage: 'analyzing',
+          current: processedMutuals,
+          total: mutuals.length,
+          message: `Fetched follow lists (${processedMutuals}/${mutuals.length}, ${reusedLists} unchanged)`,
+          details: {
+            processedNodes: processedMutuals,
+            processedEdges: discoveredEdges,
+            discoveredCommunities: 0
+          }
+        });
+      }
 
-      console.log('[NetworkBuilder] Network analysis complete');
-      console.log('- Network stats:', networkAnalysis);
-      console.log(`- Final processed nodes: ${processedNodes}`);
-      console.log(`- Final processed edges: ${processedEdges}`);
-      console.log(`- Final discovered communities: ${discoveredCommunities}`);
+      const { edges, unresolved } = this.buildMutualEdges(followsByMutual);
+      const mutualEdges = edges.filter(edge => edge.type === 'mutual').length;
 
-      // Final progress update
-      await updateProgress({
-        stage: 'complete' as AnalysisStage,
-        current: TOTAL_STEPS,
-        total: TOTAL_STEPS,
-        message: 'Network analysis complete',
-        details: {
-          processedNodes,
-          processedEdges,
-          discoveredCommunities
-        }
-      });
+      console.log('[NetworkBuilder] Network build complete');
+      console.log(`- Mutuals processed: ${processedMutuals}`);
+      console.log(`- Mutuals failed: ${failedMutuals}`);
+      console.log(`- Follow lists reused: ${reusedLists}`);
+      console.log(`- Mutual edges: ${mutualEdges}`);
+      console.log(`- Follow edges: ${edges.length - mutualEdges}`);
+      console.log(`- Unresolved edges: ${unresolved}`);
 
-      const result = {
+      return {
         userId,
         handle,
-        profile,
-        followers,
-        following: mutualConnections,
-        networkAnalysis,
-        edges: mutualConnections.filter(conn => conn.isMutual).map(conn => ({
-          source: userId,
-          target: conn.did,
-          type: 'mutual'
-        }))
+        edges,
+        stats: {
+          mutualsProcessed: processedMutuals,
+          mutualsFailed: failedMutuals,
+          followListsReused: reusedLists,
+          followListsFetched: processedMutuals - failedMutuals - reusedLists,
+          mutualEdges,
+          followEdges: edges.length - mutualEdges,
+          unresolvedEdges: unresolved
+        }
       };
 
-      console.log('[NetworkBuilder] Returning complete network data');
-      return result;
-
     } catch (error: unknown) {
-      const errorMessage = error instanceof Error 
-        ? error.message 
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error
+        ? error.message
         : 'An unknown error occurred during network analysis';
 
       console.error(`[NetworkBuilder] Failed to build network:`);
       console.error(`- Handle: ${handle}`);
       console.error(`- Error: ${errorMessage}`);
-      
-      // Error progress update
-      await updateProgress({
-        stage: 'error' as AnalysisStage,
-        current: 0,
-        total: TOTAL_STEPS,
-        message: `Network analysis failed: ${errorMessage}`,
-        details: {
-          processedNodes: 0,
-          processedEdges: 0,
-          discoveredCommunities: 0
-        }
-      });
 
       throw new Error(errorMessage);
     }
   }
 
   /**
-   * Calculate network completeness based on available data
+   * Turn per-mutual follow sets into graph edges
+   * Reciprocal follows become a single mutual edge, one-way follows a follows edge.
+   * Follows of mutuals whose follow list is missing are left out, as they may be mutual.
    */
-  private calculateNetworkCompleteness(network: any): number {
-    const { followers, following, profile } = network;
-    
-    const completenessFactors = [
-      followers?.length > 0 ? 1 : 0,
-      following?.length > 0 ? 1 : 0,
-      profile ? 1 : 0
-    ];
+  private buildMutualEdges(followsByMutual: Map<string, Set<string>>): { edges: MutualEdge[]; unresolved: number } {
+    const edges: MutualEdge[] = [];
+    let unresolved = 0;
+
+    followsByMutual.forEach((follows, source) => {
+      follows.forEach(target => {
+        const targetFollows = followsByMutual.get(target);
+        if (!targetFollows) {
+          unresolved++;
+          return;
+        }
+
+        const isReciprocal = targetFollows.has(source);
+        if (!isReciprocal) {
+          edges.push({ source, target, type: 'follows' });
+        } else if (source < target) {
+          // Emit each mutual pair only once
+          edges.push({ source, target, type: 'mutual' });
+        }
+      });
+    });
 
-    const completeness = (completenessFactors.reduce((a, b) => a + b, 0) / completenessFactors.length) * 100;
-    console.log('[NetworkBuilder] Network completeness calculated:', completeness);
-    
-    return completeness;
+    return { edges, unresolved };
   }
 }
 
@@ -0,0 +1,73 @@
+import NetworkImport, { NetworkImportDocument } from '../../models/NetworkImport';
+import {
+  NetworkAnalysisResult,
+  CommunityDetectionOptions,
+  ExportFormat
+} from '../../../shared/types';
+import graphImporter from '../graphImporter';
+import graphAnalyzer from './graphAnalyzer';
+
+/**
+ * NetworkImporter
+ * Analyses networks uploaded as files, without calling the Bluesky API
+ */
+class NetworkImporter {
+  /**
+   * Parse, analyse and store an uploaded network
+   * @param content File contents
+   * @param format File format
+   * @param name Name shown in place of a handle, usually the file name
+   * @param options Community detection options
+   */
+  async importNetwork(
+    content: string,
+    format: ExportFormat,
+    name: string,
+    options: CommunityDetectionOptions
+  ): Promise<NetworkImportDocument> {
+    console.log(`[NetworkImporter] Importing ${name} as ${format}`);
+
+    const { graph, profiles } = graphImporter.parse(content, format);
+
+    // Imported networks have no central user, so every node can be a bridge
+    const metrics = graphAnalyzer.analyze(graph, profiles, options);
+
+    const networkImport = new NetworkImport({ name, format });
+    const importId = networkImport._id.toString();
+    const analysis: NetworkAnalysisResult = {
+      userId: `import:${importId}`,
+      handle: name,
+      importId,
+      stats: {
+        followers: 0,
+        following: 0,
+        mutuals: graph.edges.filter(edge => edge.type === 'mutual').length
+      },
+      ...metrics,
+      graph,
+      lastUpdated: new Date().toISOString()
+    };
+    networkImport.analysis = analysis;
+    await networkImport.save();
+
+    console.log(`[NetworkImporter] Import ${importId} stored`);
+    console.log(`- Nodes: ${graph.nodes.length}`);
+    console.log(`- Edges: ${graph.edges.length}`);
+    console.log(`- Communities: ${analysis.communities.length}`);
+    return networkImport;
+  }
+
+  /**
+   * Get the analysis of an earlier import
+   * @param importId Import id
+   */
+  async getImport(importId: string): Promise<NetworkAnalysisResult | null> {
+    console.log(`[NetworkImporter] Fetching import ${importId}`);
+    const networkImport = await NetworkImport.findById(importId);
+    return networkImport?.analysis || null;
+  }
+}
+
+// Create and export singleton instance
+const networkImporter = new NetworkImporter();
+export default networkImporter;
@@ -0,0 +1,324 @@
+import mongoose from 'mongoose';
+import NetworkSnapshot, {
+  NetworkSnapshotChunk,
+  NetworkSnapshotDocument,
+  SnapshotList,
+  SNAPSHOT_CHUNK_SIZE
+} from '../../models/NetworkSnapshot';
+import {
+  NetworkAnalysisResult,
+  SnapshotAccount,
+  SnapshotSummary,
+  AccountChanges,
+  CommunityMatch,
+  CommunityMove,
+  NetworkDiff
+} from '../../../shared/types';
+
+// Communities overlapping less than this are not considered the same community
+const MIN_COMMUNITY_SIMILARITY = 0.2;
+
+/**
+ * SnapshotService
+ * Keeps an immutable history of completed analyses and compares them
+ */
+class SnapshotService {
+  /**
+   * Store a completed analysis as a new snapshot
+   * Account lists go into chunks first; if anything fails, the chunks written so far are removed
+   * @param analysis Completed analysis
+   * @param connections Accounts the analysis was built from
+   */
+  async createSnapshot(
+    analysis: NetworkAnalysisResult,
+    connections: Record<SnapshotList, SnapshotAccount[]>
+  ): Promise<NetworkSnapshotDocument> {
+    console.log(`[SnapshotService] Creating snapshot for ${analysis.handle}`);
+
+    const snapshotId = new mongoose.Types.ObjectId();
+    const chunks = (Object.keys(connections) as SnapshotList[]).flatMap(list => {
+      const accounts = connections[list].map(({ did, handle }) => ({ did, handle }));
+      const count = Math.ceil(accounts.length / SNAPSHOT_CHUNK_SIZE);
+      return Array.from({ length: count }, (_, index) => ({
+        snapshotId,
+        list,
+        index,
+        accounts: accounts.slice(index * SNAPSHOT_CHUNK_SIZE, (index + 1) * SNAPSHOT_CHUNK_SIZE)
+      }));
+    });
+
+    let snapshot: NetworkSnapshotDocument;
+    try {
+      await NetworkSnapshotChunk.insertMany(chunks);
+      snapshot = await NetworkSnapshot.create({
+        _id: snapshotId,
+        userId: analysis.userId,
+        handle: analysis.handle,
+        stats: analysis.stats,
+        communities: analysis.communities.map(community => ({
+          id: community.id,
+          label: community.label,
+          members: community.members
+        })),
+        modularity: analysis.modularity,
+        algorithm: analysis.algorithm,
+        resolution: analysis.resolution,
+        seed: analysis.seed
+      });
+    } catch (error) {
+      console.error(`[SnapshotService] Failed to store snapshot for ${analysis.handle}, removing its chunks`);
+      await NetworkSnapshotChunk.deleteMany({ snapshotId }).catch(cleanupError => {
+        console.error('[SnapshotService] Failed to remove snapshot chunks:', cleanupError);
+      });
+      throw error;
+    }
+
+    console.log(`[SnapshotService] Snapshot ${snapshot._id} created`);
+    console.log(`- Chunks: ${chunks.length}`);
+    console.log(`- Followers: ${connections.followers.length}`);
+    console.log(`- Mutuals: ${connections.mutuals.length}`);
+    console.log(`- Communities: ${analysis.communities.length}`);
+    return snapshot;
+  }
+
+  /**
+   * List snapshots of a handle, oldest first
+   * Communities get a track id that follows them from one snapshot to the next
+   * @param handle User's handle
+   * @param limit Maximum number of most recent snapshots
+   * @param includeMutuals Whether to include each snapshot's mutuals
+   */
+  async listSnapshots(handle: string, limit: number, includeMutuals: boolean = false): Promise<SnapshotSummary[]> {
+    console.log(`[SnapshotService] Listing snapshots for ${handle}`);
+
+    const projection = includeMutuals
+      ? { followers: 0, following: 0 }
+      : { followers: 0, following: 0, mutuals: 0 };
+    const snapshots = (await NetworkSnapshot.find({ handle }, projection)
+      .sort({ createdAt: -1 })
+      .limit(limit))
+      .reverse();
+
+    let trackCount = 0;
+    let previousTracks = new Map<string, string>();
+    const summaries = snapshots.map((snapshot, index) => {
+      const matches = index > 0
+        ? this.matchCommunities(snapshots[index - 1].communities, snapshot.communities)
+        : [];
+      const matchedFrom = new Map(matches.map(match => [match.to, match.from]));
+
+      const tracks = new Map<string, string>();
+      snapshot.communities.forEach(community => {
+        const from = matchedFrom.get(community.id);
+        tracks.set(community.id, (from && previousTracks.get(from)) || `track-${trackCount++}`);
+      });
+      previousTracks = tracks;
+
+      const summary = this.toSummary(snapshot);
+      summary.communities.forEach(community => {
+        community.trackId = tracks.get(community.id);
+      });
+      return summary;
+    });
+
+    if (includeMutuals) {
+      await Promise.all(summaries.map(async (summary, index) => {
+        summary.mutuals = await this.loadAccounts(snapshots[index], 'mutuals');
+      }));
+    }
+
+    console.log(`[SnapshotService] Found ${summaries.length} snapshots`);
+    console.log(`- Community tracks: ${trackCount}`);
+    return summaries;
+  }
+
+  /**
+   * Compare two snapshots of a handle
+   * Defaults to the two most recent snapshots; returns null when either is missing
+   * @param handle User's handle
+   * @param fromId Older snapshot
+   * @param toId Newer snapshot
+   */
+  async diffSnapshots(handle: string, fromId?: string, toId?: string): Promise<NetworkDiff | null> {
+    console.log(`[SnapshotService] Diffing snapshots for ${handle}`);
+    console.log(`- From: ${fromId || 'previous'}`);
+    console.log(`- To: ${toId || 'latest'}`);
+
+    const to = toId
+      ? await NetworkSnapshot.findOne({ _id: toId, handle })
+      : await NetworkSnapshot.findOne({ handle }).sort({ createdAt: -1 });
+    if (!to) {
+      return null;
+    }
+
+    const from = fromId
+      ? await NetworkSnapshot.findOne({ _id: fromId, handle })
+      : await NetworkSnapshot.findOne({ handle, createdAt: { $lt: to.createdAt } }).sort({ createdAt: -1 });
+    if (!from) {
+      return null;
+    }
+
+    const [before, after] = await Promise.all([this.loadLists(from), this.loadLists(to)]);
+    const communityMatches = this.matchCommunities(from.communities, to.communities);
+    const movedNodes = this.findMovedNodes(from, to, [...before.mutuals, ...after.mutuals], communityMatches);
+
+    const diff: NetworkDiff = {
+      handle,
+      from: this.toSummary(from),
+      to: this.toSummary(to),
+      followers: this.diffAccounts(before.followers, after.followers),
+      following: this.diffAccounts(before.following, after.following),
+      mutuals: this.diffAccounts(before.mutuals, after.mutuals),
+      communityMatches,
+      movedNodes
+    };
+
+    console.log(`[SnapshotService] Diff complete`);
+    console.log(`- Followers: +${diff.followers.gained.length} -${diff.followers.lost.length}`);
+    console.log(`- Mutuals: +${diff.mutuals.gained.length} -${diff.mutuals.lost.length}`);
+    console.log(`- Moved nodes: ${movedNodes.length}`);
+    return diff;
+  }
+
+  /**
+   * One account list of a snapshot, read from its chunks
+   * Snapshots stored before chunking kept their lists in the snapshot itself
+   */
+  private async loadAccounts(snapshot: NetworkSnapshotDocument, list: SnapshotList): Promise<SnapshotAccount[]> {
+    const chunks = await NetworkSnapshotChunk.find({ snapshotId: snapshot._id, list })
+      .sort({ index: 1 })
+      .lean();
+
+    const accounts = chunks.length > 0
+      ? chunks.flatMap(chunk => chunk.accounts)
+      : snapshot[list] || [];
+    return accounts.map(({ did, handle }) => ({ did, handle }));
+  }
+
+  /**
+   * All account lists of a snapshot
+   */
+  private async loadLists(snapshot: NetworkSnapshotDocument): Promise<Record<SnapshotList, SnapshotAccount[]>> {
+    const [followers, following, mutuals] = await Promise.all([
+      this.loadAccounts(snapshot, 'followers'),
+      this.loadAccounts(snapshot, 'following'),
+      this.loadAccounts(snapshot, 'mutuals')
+    ]);
+    return { followers, following, mutuals };
+  }
+
+  /**
+   * Accounts present in only one of two lists
+   */
+  private diffAccounts(before: SnapshotAccount[], after: SnapshotAccount[]): AccountChanges {
+    const beforeIds = new Set(before.map(account => account.did));
+    const afterIds = new Set(after.map(account => account.did));
+    const plain = ({ did, handle }: SnapshotAccount) => ({ did, handle });
+
+    return {
+      gained: after.filter(account => !beforeIds.has(account.did)).map(plain),
+      lost: before.filter(account => !afterIds.has(account.did)).map(plain)
+    };
+  }
+
+  /**
+   * Pair communities of two snapshots by Jaccard similarity of their members
+   * Pairs are taken greedily from most to least similar, each community used once
+   */
+  private matchCommunities(
+    from: NetworkSnapshotDocument['communities'],
+    to: NetworkSnapshotDocument['communities']
+  ): CommunityMatch[] {
+    const candidates: CommunityMatch[] = [];
+
+    from.forEach(before => {
+      const beforeMembers = new Set(before.members);
+      to.forEach(after => {
+        const shared = after.members.filter(member => beforeMembers.has(member)).length;
+        if (shared === 0) return;
+
+        const similarity = shared / (beforeMembers.size + after.members.length - shared);
+        if (similarity >= MIN_COMMUNITY_SIMILARITY) {
+          candidates.push({ from: before.id, to: after.id, similarity });
+        }
+      });
+    });
+
+    const usedFrom = new Set<string>();
+    const usedTo = new Set<string>();
+    return candidates
+      .sort((a, b) => b.similarity - a.similarity)
+      .filter(match => {
+        if (usedFrom.has(match.from) || usedTo.has(match.to)) {
+          return false;
+        }
+        usedFrom.add(match.from);
+        usedTo.add(match.to);
+        return true;
+      });
+  }
+
+  /**
+   * Accounts in both snapshots whose community does not correspond to their previous one
+   */
+  private findMovedNodes(
+    from: NetworkSnapshotDocument,
+    to: NetworkSnapshotDocument,
+    mutuals: SnapshotAccount[],
+    matches: CommunityMatch[]
+  ): CommunityMove[] {
+    const matchedTo = new Map(matches.map(match => [match.from, match.to]));
+    const communityBefore = new Map<string, string>();
+    from.communities.forEach(community => {
+      community.members.forEach(member => communityBefore.set(member, community.id));
+    });
+
+    const handles = new Map<string, string>();
+    mutuals.forEach(account => handles.set(account.did, account.handle));
+
+    const moves: CommunityMove[] = [];
+    to.communities.forEach(community => {
+      community.members.forEach(member => {
+        const before = communityBefore.get(member);
+        // The analysed user sits in the middle of every snapshot and is not a move
+        if (member !== to.userId && before !== undefined && matchedTo.get(before) !== community.id) {
+          moves.push({
+            did: member,
+            handle: handles.get(member) || member,
+            from: before,
+            to: community.id
+          });
+        }
+      });
+    });
+
+    return moves;
+  }
+
+  /**
+   * Summary of a snapshot without the account lists
+   */
+  private toSummary(snapshot: NetworkSnapshotDocument): SnapshotSummary {
+    return {
+      id: snapshot._id.toString(),
+      handle: snapshot.handle,
+      createdAt: snapshot.createdAt.toISOString(),
+      stats: {
+        followers: snapshot.stats?.followers || 0,
+        following: snapshot.stats?.following || 0,
+        mutuals: snapshot.stats?.mutuals || 0
+      },
+      modularity: snapshot.modularity,
+      algorithm: snapshot.algorithm,
+      communities: snapshot.communities.map(community => ({
+        id: community.id,
+        label: community.label,
+        size: community.members.length
+      }))
+    };
+  }
+}
+
+// Create and export singleton instance
+const snapshotService = new SnapshotService();
+export default snapshotService;
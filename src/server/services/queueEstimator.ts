@@ -0,0 +1,205 @@
+import Job, { JobDocument, JobStatus, QUEUE_LIMITS } from '../models/Job';
+import { QueueEstimate } from '../../shared/types';
+import { getBudget } from './atproto/index';
+
+// Completed jobs the estimate learns from
+const HISTORY_SIZE = 50;
+
+// Assumed for every job until any job has completed
+const DEFAULT_JOB_DURATION_MS = 30000;
+const DEFAULT_JOB_REQUESTS = 20;
+
+interface JobHistory {
+  samples: number;
+  msPerConnection: number;
+  requestsPerConnection: number;
+  typicalDurationMs: number; // for accounts analysed for the first time
+  typicalRequests: number;
+}
+
+interface ExpectedWork {
+  durationMs: number;
+  requests: number;
+}
+
+type QueuedJob = Pick<JobDocument, '_id' | 'handle' | 'status' | 'priority' | 'createdAt' | 'startedAt'>;
+
+/**
+ * Queue Estimator
+ * Estimates when a job starts and completes from the durations and request counts of completed jobs,
+ * scaled by the size of each account, the jobs running and queued ahead of it and the API request budget
+ */
+class QueueEstimator {
+  /**
+   * Position and estimated wait of a job
+   * @param job Pending or running job; finished jobs have no wait
+   */
+  async estimate(job: QueuedJob): Promise<QueueEstimate> {
+    const jobId = job._id.toString();
+
+    if (job.status !== JobStatus.PENDING && job.status !== JobStatus.IN_PROGRESS) {
+      return { jobId, status: job.status, position: null, waitMs: 0, etaMs: 0, historySamples: 0 };
+    }
+
+    const now = Date.now();
+    const [history, running, ahead] = await Promise.all([
+      this.loadHistory(),
+      Job.find({ status: JobStatus.IN_PROGRESS, leaseExpiresAt: { $gt: new Date(now) } })
+        .select('handle startedAt'),
+      job.status === JobStatus.PENDING
+        ? Job.find({
+            _id: { $ne: job._id },
+            status: JobStatus.PENDING,
+            $or: [
+              { priority: { $gt: job.priority } },
+              { priority: job.priority, createdAt: { $lt: job.createdAt } }
+            ]
+          }).select('handle')
+        : Promise.resolve([])
+    ]);
+
+    const connections = await this.loadConnections([job, ...running, ...ahead].map(({ handle }) => handle));
+    const expected = (handle: string) => this.expectedWork(handle, history, connections);
+    const own = expected(job.handle);
+
+    // Work left in running jobs: the share of their expected duration not yet elapsed
+    const remaining = running
+      .filter(other => other._id.toString() !== jobId)
+      .map(other => {
+        const work = expected(other.handle);
+        const elapsed = other.startedAt ? now - other.startedAt.getTime() : 0;
+        const share = work.durationMs > 0 ? Math.max(0, 1 - elapsed / work.durationMs) : 0;
+        return { durationMs: work.durationMs * share, requests: work.requests * share };
+      });
+
+    if (job.status === JobStatus.IN_PROGRESS) {
+      const elapsed = job.startedAt ? now - job.startedAt.getTime() : 0;
+      const etaMs = Math.max(0, own.durationMs - elapsed);
+      return { jobId, status: job.status, position: 0, waitMs: 0, etaMs: Math.round(etaMs), historySamples: history.samples };
+    }
+
+    // Jobs ahead start as soon as one of the concurrent job slots frees up
+    const slots = remaining.map(work => work.durationMs).sort((a, b) => a - b).slice(0, QUEUE_LIMITS.MAX_CONCURRENT_JOBS);
+    while (slots.length < QUEUE_LIMITS.MAX_CONCURRENT_JOBS) {
+      slots.push(0);
+    }
+    const aheadWork = ahead.map(other => expected(other.handle));
+    aheadWork.forEach(work => {
+      const next = slots.indexOf(Math.min(...slots));
+      slots[next] += work.durationMs;
+    });
+    const slotWaitMs = Math.min(...slots);
+
+    // Every request before this job's last one has to fit in the API budget
+    const requestsAhead = [...remaining, ...aheadWork].reduce((sum, work) => sum + work.requests, 0);
+    const waitMs = Math.max(slotWaitMs, this.budgetTime(requestsAhead, now));
+    const etaMs = Math.max(waitMs + own.durationMs, this.budgetTime(requestsAhead + own.requests, now));
+
+    return {
+      jobId,
+      status: job.status,
+      position: ahead.length + 1,
+      waitMs: Math.round(waitMs),
+      etaMs: Math.round(etaMs),
+      historySamples: history.samples
+    };
+  }
+
+  /**
+   * Time the API budget needs to serve a number of requests
+   * Requests beyond the remaining budget wait for the window to reset
+   */
+  private budgetTime(requests: number, now: number): number {
+    const budget = getBudget();
+    if (!budget.rateLimited || budget.requestsPerMinute <= 0 || requests <= 0) {
+      return 0;
+    }
+
+    const paceMs = (requests / budget.requestsPerMinute) * 60 * 1000;
+    if (requests <= budget.remaining || !budget.resetAt) {
+      return paceMs;
+    }
+    return Math.max(paceMs, new Date(budget.resetAt).getTime() - now);
+  }
+
+  /**
+   * Rates learned from recently completed jobs
+   * Jobs answered from a cached analysis did not crawl and are left out
+   */
+  private async loadHistory(): Promise<JobHistory> {
+    const completed = await Job.find({
+      status: JobStatus.COMPLETED,
+      'metrics.connections': { $gt: 0 },
+      'data.fromCache': { $ne: true }
+    })
+      .sort({ completedAt: -1 })
+      .limit(HISTORY_SIZE)
+      .select('metrics');
+
+    const metrics = completed.map(job => job.metrics!);
+    if (metrics.length === 0) {
+      return {
+        samples: 0,
+        msPerConnection: 0,
+        requestsPerConnection: 0,
+        typicalDurationMs: DEFAULT_JOB_DURATION_MS,
+        typicalRequests: DEFAULT_JOB_REQUESTS
+      };
+    }
+
+    const totalConnections = metrics.reduce((sum, m) => sum + m.connections, 0);
+    return {
+      samples: metrics.length,
+      msPerConnection: metrics.reduce((sum, m) => sum + m.durationMs, 0) / totalConnections,
+      requestsPerConnection: metrics.reduce((sum, m) => sum + m.requests, 0) / totalConnections,
+      typicalDurationMs: this.median(metrics.map(m => m.durationMs)),
+      typicalRequests: this.median(metrics.map(m => m.requests))
+    };
+  }
+
+  /**
+   * Followers plus following of each handle, as of its last completed analysis
+   * @param handles Handles to look up
+   */
+  private async loadConnections(handles: string[]): Promise<Map<string, number>> {
+    const latest: { _id: string; connections: number }[] = await Job.aggregate([
+      {
+        $match: {
+          handle: { $in: Array.from(new Set(handles)) },
+          status: JobStatus.COMPLETED,
+          'metrics.connections': { $gt: 0 },
+          'data.fromCache': { $ne: true }
+        }
+      },
+      { $sort: { completedAt: -1 } },
+      { $group: { _id: '$handle', connections: { $first: '$metrics.connections' } } }
+    ]);
+
+    return new Map(latest.map(entry => [entry._id, entry.connections]));
+  }
+
+  /**
+   * Expected duration and requests of analysing a handle
+   * Accounts analysed before scale with their size, others get a typical job
+   */
+  private expectedWork(handle: string, history: JobHistory, connections: Map<string, number>): ExpectedWork {
+    const count = connections.get(handle);
+    if (count === undefined || history.samples === 0) {
+      return { durationMs: history.typicalDurationMs, requests: history.typicalRequests };
+    }
+    return {
+      durationMs: count * history.msPerConnection,
+      requests: count * history.requestsPerConnection
+    };
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
+
+// Create and export singleton instance
+const queueEstimator = new QueueEstimator();
+export default queueEstimator;
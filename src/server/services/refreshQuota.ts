@@ -0,0 +1,133 @@
+import mongoose from 'mongoose';
+import { RateLimiterMongo, RateLimiterRes } from 'rate-limiter-flexible';
+import { QUEUE_LIMITS } from '../models/Job';
+
+// Quotas reset a day after the first refresh they counted
+const QUOTA_DURATION_SECONDS = 24 * 60 * 60;
+
+export interface RefreshQuotaResult {
+  allowed: boolean;
+  scope?: 'handle' | 'client'; // quota that was used up
+  limit: number;
+  remaining: number;
+  resetAt: string | null;
+}
+
+/**
+ * Refresh Quota
+ * Daily limit on forced refreshes, per analysed handle and per client
+ * Counts live in Mongo, so every web process enforces the same quota
+ */
+class RefreshQuota {
+  private limiters: { handle: RateLimiterMongo; client: RateLimiterMongo } | null = null;
+
+  /**
+   * Limiters for both quotas, created once MongoDB is connected
+   * They set up their indexes on creation, which fails without a connection
+   */
+  private getLimiters(): { handle: RateLimiterMongo; client: RateLimiterMongo } {
+    if (mongoose.connection.readyState !== mongoose.ConnectionStates.connected) {
+      throw new Error('Refresh quota unavailable: MongoDB is not connected');
+    }
+
+    if (!this.limiters) {
+      this.limiters = {
+        handle: new RateLimiterMongo({
+          storeClient: mongoose.connection,
+          tableName: 'refreshquotas',
+          keyPrefix: 'refresh-handle',
+          points: QUEUE_LIMITS.DAILY_REFRESH_LIMIT,
+          duration: QUOTA_DURATION_SECONDS
+        }),
+        client: new RateLimiterMongo({
+          storeClient: mongoose.connection,
+          tableName: 'refreshquotas',
+          keyPrefix: 'refresh-client',
+          points: QUEUE_LIMITS.DAILY_CLIENT_REFRESH_LIMIT,
+          duration: QUOTA_DURATION_SECONDS
+        })
+      };
+    }
+    return this.limiters;
+  }
+
+  /**
+   * Count a forced refresh against both quotas, unless one of them is used up
+   * @param handle Handle to refresh
+   * @param clientId Client requesting the refresh, usually its IP
+   */
+  async consume(handle: string, clientId: string): Promise<RefreshQuotaResult> {
+    const limiters = this.getLimiters();
+    const handleKey = handle.toLowerCase();
+    const [handleUsage, clientUsage] = await Promise.all([
+      limiters.handle.get(handleKey),
+      limiters.client.get(clientId)
+    ]);
+
+    if (handleUsage && handleUsage.consumedPoints >= QUEUE_LIMITS.DAILY_REFRESH_LIMIT) {
+      console.log(`[RefreshQuota] Daily refresh limit reached for ${handle}`);
+      return this.toResult(false, QUEUE_LIMITS.DAILY_REFRESH_LIMIT, handleUsage, 'handle');
+    }
+    if (clientUsage && clientUsage.consumedPoints >= QUEUE_LIMITS.DAILY_CLIENT_REFRESH_LIMIT) {
+      console.log(`[RefreshQuota] Daily refresh limit reached for client ${clientId}`);
+      return this.toResult(false, QUEUE_LIMITS.DAILY_CLIENT_REFRESH_LIMIT, clientUsage, 'client');
+    }
+
+    // A concurrent refresh may still use up a quota between the check and here; consume rejects then
+    let handleResult: RateLimiterRes;
+    try {
+      handleResult = await limiters.handle.consume(handleKey);
+    } catch (rejection) {
+      if (rejection instanceof RateLimiterRes) {
+        return this.toResult(false, QUEUE_LIMITS.DAILY_REFRESH_LIMIT, rejection, 'handle');
+      }
+      throw rejection;
+    }
+    try {
+      await limiters.client.consume(clientId);
+    } catch (rejection) {
+      await limiters.handle.reward(handleKey);
+      if (rejection instanceof RateLimiterRes) {
+        return this.toResult(false, QUEUE_LIMITS.DAILY_CLIENT_REFRESH_LIMIT, rejection, 'client');
+      }
+      throw rejection;
+    }
+
+    console.log(`[RefreshQuota] Refresh counted for ${handle}`);
+    console.log(`- Remaining today: ${handleResult.remainingPoints}`);
+    return this.toResult(true, QUEUE_LIMITS.DAILY_REFRESH_LIMIT, handleResult);
+  }
+
+  /**
+   * Give back a refresh counted by consume, when the refresh could not be started
+   * @param handle Handle that was to be refreshed
+   * @param clientId Client that requested the refresh
+   */
+  async refund(handle: string, clientId: string): Promise<void> {
+    const limiters = this.getLimiters();
+    await Promise.all([
+      limiters.handle.reward(handle.toLowerCase()),
+      limiters.client.reward(clientId)
+    ]);
+    console.log(`[RefreshQuota] Refresh refunded for ${handle}`);
+  }
+
+  private toResult(
+    allowed: boolean,
+    limit: number,
+    usage: RateLimiterRes,
+    scope?: RefreshQuotaResult['scope']
+  ): RefreshQuotaResult {
+    return {
+      allowed,
+      scope,
+      limit,
+      remaining: Math.max(0, limit - usage.consumedPoints),
+      resetAt: usage.msBeforeNext > 0 ? new Date(Date.now() + usage.msBeforeNext).toISOString() : null
+    };
+  }
+}
+
+// Create and export singleton instance
+const refreshQuota = new RefreshQuota();
+export default refreshQuota;
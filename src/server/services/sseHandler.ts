@@ -2,21 +2,37 @@ import { Request, Response } from 'express';
 import { EventEmitter } from 'events';
 import { JobDocument, JobStatus } from '../models/Job';
 import jobProcessor from './jobProcessor';
+import jobEvents from './jobEvents';
 
 /**
  * Server-Sent Events Handler
  * Manages real-time updates for job progress
+ * Updates go through the job event collection, so clients hear about jobs run by any worker process
  */
 class SSEHandler {
   private eventEmitter: EventEmitter;
   private clients: Map<string, Response>;
+  private listening: boolean;
 
   constructor() {
     this.eventEmitter = new EventEmitter();
     this.clients = new Map();
+    this.listening = false;
     console.log('SSE Handler initialized');
   }
 
+  /**
+   * Start relaying published job events to clients
+   * Only processes that serve clients need to follow the events
+   */
+  private listen = () => {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+    jobEvents.subscribe(event => this.broadcastUpdate(event));
+  };
+
   /**
    * Handle new SSE connection
    */
@@ -35,6 +51,7 @@ class SSEHandler {
 
     // Store client connection
     this.clients.set(clientId, res);
+    this.listen();
 
     // Handle client disconnect
     req.on('close', () => {
@@ -78,8 +95,8 @@ class SSEHandler {
    * Update job progress
    */
   updateJobProgress = (jobId: string, progress: any) => {
-    console.log(`[SSEHandler] Updating job progress for ${jobId}:`, progress);
-    this.broadcastUpdate({
+    console.log(`[SSEHandler] Publishing job progress for ${jobId}:`, progress);
+    jobEvents.publish({
       type: 'jobProgress',
       jobId,
       progress
@@ -90,8 +107,8 @@ class SSEHandler {
    * Update job status
    */
   updateJobStatus = (jobId: string, status: JobStatus) => {
-    console.log(`[SSEHandler] Updating job status for ${jobId}:`, status);
-    this.broadcastUpdate({
+    console.log(`[SSEHandler] Publishing job status for ${jobId}:`, status);
+    jobEvents.publish({
       type: 'jobStatus',
       jobId,
       status
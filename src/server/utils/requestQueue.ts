@@ -1,21 +1,60 @@
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+import type { SocialGraphSource } from '../services/atproto/interfaces';
+
 /**
  * Request Queue Utility
- * Provides centralized rate limiting for API requests
+ * Caps requests in flight and hands each one to the source's accounts
+ * Pacing within the rate limit is left to each account's rate limiter
  */
 
-interface QueuedRequest {
-  promise: Promise<any>;
-  completed: boolean;
+// Requests in flight at once, for each account
+const MAX_CONCURRENT_PER_ACCOUNT = 2;
+
+// Lower values run first
+export enum RequestPriority {
+  INTERACTIVE = 0, // A user is waiting on the response
+  NORMAL = 1,
+  BULK = 2 // Follow list crawling for analysis jobs
+}
+
+export interface RequestOptions {
+  jobId?: string;
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+// Error for requests dropped before they ran
+export class RequestCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+interface PendingRequest {
+  jobId?: string;
+  priority: RequestPriority;
+  sequence: number;
+  signal?: AbortSignal;
+  start: () => void;
+  reject: (error: Error) => void;
 }
 
 class RequestQueue {
-  private requestQueue: QueuedRequest[] = [];
+  private pending: PendingRequest[] = [];
+  private active = 0;
+  private sequence = 0;
   private static instance: RequestQueue;
 
   // Rate limiting configuration
-  private readonly maxConcurrentRequests = 2;
-  private readonly minRequestDelay = 2000; // 2 seconds between requests
-  private lastRequestTime = 0;
+  private maxConcurrentRequests = MAX_CONCURRENT_PER_ACCOUNT;
+  private source: Pick<SocialGraphSource, 'accountCount' | 'assign'> | null = null;
+
+  // Options inherited by requests queued while a job runs
+  private context = new AsyncLocalStorage<RequestOptions>();
+  private jobControllers = new Map<string, AbortController>();
+  private jobRequestCounts = new Map<string, number>();
+  private watchedSignals = new WeakSet<AbortSignal>();
 
   private constructor() {}
 
@@ -27,39 +66,165 @@ class RequestQueue {
   }
 
   /**
-   * Queue an API request with rate limiting
-   * Ensures we don't exceed Bluesky's rate limits
+   * Set the source requests are assigned to
+   * Throughput scales with its accounts
+   */
+  public setSource(source: Pick<SocialGraphSource, 'accountCount' | 'assign'>): void {
+    this.source = source;
+    this.maxConcurrentRequests = MAX_CONCURRENT_PER_ACCOUNT * Math.max(1, source.accountCount);
+  }
+
+  /**
+   * Queue an API request
+   * Higher priority requests go first; the source picks the account it runs on, whose rate limiter paces it
+   * @param request Request to run
+   * @param options Job, priority and abort signal, defaulting to those of the job being run
    */
-  public async queueRequest<T>(request: () => Promise<T>): Promise<T> {
-    // Remove completed requests from queue
-    this.requestQueue = this.requestQueue.filter(r => !r.completed);
-    
-    // Wait if we have too many concurrent requests
-    while (this.requestQueue.filter(r => !r.completed).length >= this.maxConcurrentRequests) {
-      await Promise.race(this.requestQueue.map(r => r.promise));
-      this.requestQueue = this.requestQueue.filter(r => !r.completed);
+  public async queueRequest<T>(request: () => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const { jobId, priority = RequestPriority.NORMAL, signal } = { ...this.context.getStore(), ...options };
+
+    if (signal?.aborted) {
+      throw new RequestCancelledError(`Request cancelled${jobId ? ` for job ${jobId}` : ''}`);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      // Run in the caller's async context, not that of the request that frees the slot,
+      // with the request's own options so the source can abort it through getSignal
+      const start = AsyncResource.bind(() => {
+        this.active++;
+        if (jobId && this.jobRequestCounts.has(jobId)) {
+          this.jobRequestCounts.set(jobId, this.jobRequestCounts.get(jobId)! + 1);
+        }
+        this.context.run({ jobId, priority, signal }, () => this.source ? this.source.assign(request) : request())
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.next();
+          });
+      });
+
+      this.pending.push({ jobId, priority, sequence: this.sequence++, signal, start, reject });
+      if (signal) {
+        this.watch(signal);
+      }
+      this.next();
+    });
+  }
+
+  /**
+   * Run a job, tagging the requests it queues with its ID so they can be cancelled together
+   * @param jobId Job ID
+   * @param run Job to run
+   * @param priority Priority of the job's requests
+   */
+  public async runJob<T>(jobId: string, run: () => Promise<T>, priority: RequestPriority = RequestPriority.BULK): Promise<T> {
+    const controller = new AbortController();
+    this.jobControllers.set(jobId, controller);
+    this.jobRequestCounts.set(jobId, 0);
+
+    try {
+      return await this.context.run({ jobId, priority, signal: controller.signal }, run);
+    } finally {
+      this.jobControllers.delete(jobId);
+      this.jobRequestCounts.delete(jobId);
     }
+  }
 
-    // Ensure minimum time between requests
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.minRequestDelay) {
-      await new Promise(resolve => 
-        setTimeout(resolve, this.minRequestDelay - timeSinceLastRequest)
-      );
+  /**
+   * Cancel a running job: its pending requests are dropped, requests in flight are aborted
+   * and later ones are refused
+   * @param jobId Job ID
+   * @returns Whether the job was running
+   */
+  public cancelJob(jobId: string): boolean {
+    const controller = this.jobControllers.get(jobId);
+    if (!controller) {
+      return false;
     }
 
-    // Create new request with completion tracking
-    const queuedRequest: QueuedRequest = {
-      promise: request().finally(() => {
-        queuedRequest.completed = true;
-        this.lastRequestTime = Date.now();
-      }),
-      completed: false
+    console.log(`[RequestQueue] Cancelling requests for job ${jobId}`);
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Throw if the job being run has been cancelled
+   * Lets a job stop between steps that queue no requests
+   */
+  public throwIfCancelled(): void {
+    const { jobId, signal } = this.context.getStore() || {};
+    if (signal?.aborted) {
+      throw new RequestCancelledError(`Job ${jobId} cancelled`);
+    }
+  }
+
+  /**
+   * Abort signal of the request or job being run
+   * API calls pass it on, so cancelling a job stops requests already in flight
+   */
+  public getSignal(): AbortSignal | undefined {
+    return this.context.getStore()?.signal;
+  }
+
+  /**
+   * Pending requests, for one job or all of them, and requests in flight
+   */
+  public getStats(jobId?: string): { pending: number; active: number } {
+    return {
+      pending: this.pending.filter(request => !jobId || request.jobId === jobId).length,
+      active: this.active
     };
+  }
+
+  /**
+   * Requests a running job has started so far
+   * @param jobId Job ID
+   */
+  public getRequestCount(jobId: string): number {
+    return this.jobRequestCounts.get(jobId) ?? 0;
+  }
+
+  /**
+   * Start pending requests, highest priority and oldest first, while there are free slots
+   */
+  private next(): void {
+    while (this.active < this.maxConcurrentRequests && this.pending.length > 0) {
+      let best = 0;
+      for (let i = 1; i < this.pending.length; i++) {
+        const request = this.pending[i];
+        const current = this.pending[best];
+        if (
+          request.priority < current.priority ||
+          (request.priority === current.priority && request.sequence < current.sequence)
+        ) {
+          best = i;
+        }
+      }
+
+      const [request] = this.pending.splice(best, 1);
+      request.start();
+    }
+  }
+
+  /**
+   * Drop pending requests once their signal aborts
+   * Each signal is watched once, however many requests share it
+   */
+  private watch(signal: AbortSignal): void {
+    if (this.watchedSignals.has(signal)) {
+      return;
+    }
+    this.watchedSignals.add(signal);
+
+    signal.addEventListener('abort', () => {
+      const dropped = this.pending.filter(request => request.signal === signal);
+      this.pending = this.pending.filter(request => request.signal !== signal);
 
-    this.requestQueue.push(queuedRequest);
-    return queuedRequest.promise;
+      console.log(`[RequestQueue] Dropped ${dropped.length} pending requests`);
+      dropped.forEach(request => {
+        request.reject(new RequestCancelledError(`Request cancelled${request.jobId ? ` for job ${request.jobId}` : ''}`));
+      });
+    }, { once: true });
   }
 }
 
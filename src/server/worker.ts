@@ -0,0 +1,55 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+
+// Import configuration and utilities
+import { MONGODB_URI } from './config';
+import { validateConfig } from './services/atproto/index';
+
+// Import job processors and services
+import jobProcessor from './services/jobProcessor';
+import networkAnalyzer from './services/network';
+
+/**
+ * Standalone job worker
+ * Runs analysis jobs claimed from MongoDB, next to any number of web servers and other workers.
+ * Progress reaches the web servers' SSE clients through the job event collection.
+ */
+
+// Load environment variables
+dotenv.config();
+
+async function startWorker() {
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log('MongoDB connected successfully');
+
+    // Validate AT Protocol configuration
+    validateConfig();
+
+    console.log('[Worker] Registering network analyzer handler with job processor');
+    networkAnalyzer.registerHandler(jobProcessor);
+    jobProcessor.start();
+    console.log(`[Worker] Worker running (pid ${process.pid})`);
+  } catch (error) {
+    console.error('Failed to start worker:', error);
+    process.exit(1);
+  }
+
+  // Graceful shutdown: running jobs go back to the queue for another worker
+  const shutdown = async () => {
+    console.log('Shutting down worker...');
+    try {
+      await jobProcessor.stop();
+      await mongoose.connection.close();
+      console.log('MongoDB connection closed');
+      process.exit(0);
+    } catch (err) {
+      console.error('Error shutting down worker:', err);
+      process.exit(1);
+    }
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+startWorker();
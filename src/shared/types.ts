@@ -3,6 +3,7 @@ export interface User {
   did: string;
   handle: string;
   displayName?: string;
+  avatar?: string;
 }
 
 // Network Types
@@ -25,7 +26,6 @@ export interface NetworkData {
 
 // Cache Types
 export interface UserProfile extends User {
-  avatar?: string;
   banner?: string;
   description?: string;
   followersCount: number;
@@ -49,24 +49,182 @@ export interface Community {
   size: number;
   members: string[];
   centralNodes?: string[];
+  // Short name built from the most distinctive keywords of member bios
+  label?: string;
+  keywords?: string[];
   metrics?: {
     density: number;
     cohesion: number;
   };
 }
 
+// One level of the community hierarchy, from finest (0) to coarsest
+export interface CommunityLevel {
+  level: number;
+  modularity: number;
+  communities: Community[];
+}
+
+export type CommunityAlgorithm = 'louvain' | 'leiden';
+
+export interface CommunityDetectionOptions {
+  algorithm?: CommunityAlgorithm;
+  // Modularity resolution (gamma): above 1 favours smaller communities, below 1 larger ones
+  resolution?: number;
+  // Seed for the randomized node order; identical seeds give identical communities
+  seed?: number;
+  // Previous partition to start from, so a refresh only has to adjust it
+  initialCommunities?: Community[];
+}
+
+export interface CommunityDetectionResult {
+  communities: Community[];
+  modularity: number;
+  levels: CommunityLevel[];
+  algorithm: CommunityAlgorithm;
+  resolution: number;
+  seed: number;
+}
+
+// Centrality scores of a single node in the analysed network
+export interface NodeCentrality {
+  id: string;
+  handle: string;
+  pageRank: number;
+  betweenness: number;
+  closeness: number;
+  eigenvector: number;
+}
+
+export type CentralityMetric = 'pageRank' | 'betweenness' | 'closeness' | 'eigenvector';
+
+// Position of a single node between communities
+export interface NodeBrokerage {
+  id: string;
+  community: string;
+  // 0 when all links stay inside one community, approaching 1 when spread evenly
+  participation: number;
+  // Burt's constraint; low values mean the node spans structural holes
+  constraint: number;
+  interCommunityLinks: number;
+}
+
+export interface InterCommunityEdge extends NetworkEdge {
+  sourceCommunity: string;
+  targetCommunity: string;
+}
+
+export interface BridgeAnalysis {
+  nodes: NodeBrokerage[];
+  bridgeNodes: string[]; // strongest bridges first
+  interCommunityEdges: InterCommunityEdge[];
+}
+
 export interface NetworkAnalysisResult {
   userId: string;
   handle: string;
+  importId?: string; // set when the network was uploaded as a file
+  fromCache?: boolean; // set when a job returned a cached analysis instead of crawling
   stats: {
     followers: number;
     following: number;
     mutuals: number;
   };
   communities: Community[];
+  modularity?: number;
+  hierarchy?: CommunityLevel[];
+  algorithm?: CommunityAlgorithm;
+  resolution?: number;
+  seed?: number;
+  centrality?: NodeCentrality[];
+  bridges?: BridgeAnalysis;
+  graph?: NetworkData;
   lastUpdated: string;
 }
 
+// Network History
+export interface SnapshotAccount {
+  did: string;
+  handle: string;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  handle: string;
+  createdAt: string;
+  stats: NetworkAnalysisResult['stats'];
+  modularity?: number;
+  algorithm?: CommunityAlgorithm;
+  communities: {
+    id: string;
+    // Same across the snapshots of a timeline for communities that carry on from one to the next
+    trackId?: string;
+    label?: string;
+    size: number;
+  }[];
+  mutuals?: SnapshotAccount[];
+}
+
+export interface AccountChanges {
+  gained: SnapshotAccount[];
+  lost: SnapshotAccount[];
+}
+
+// Communities of two snapshots paired by member overlap (Jaccard similarity)
+export interface CommunityMatch {
+  from: string;
+  to: string;
+  similarity: number;
+}
+
+export interface CommunityMove extends SnapshotAccount {
+  from: string;
+  to: string;
+}
+
+export interface NetworkDiff {
+  handle: string;
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  followers: AccountChanges;
+  following: AccountChanges;
+  mutuals: AccountChanges;
+  communityMatches: CommunityMatch[];
+  movedNodes: CommunityMove[];
+}
+
+// Export
+export type ExportFormat = 'graphml' | 'gexf' | 'csv' | 'json';
+
+// CSV holds one table per file
+export type ExportTable = 'nodes' | 'edges';
+
+// API Budget
+export interface RateLimitBudget {
+  remaining: number;
+  limit: number;
+  resetAt: string | null;
+  requestsPerMinute: number;
+}
+
+// Totals over all accounts, followed by each account's own budget
+export interface ApiBudget extends RateLimitBudget {
+  source: string;
+  rateLimited: boolean;
+  accounts: (RateLimitBudget & { quarantined: boolean })[];
+}
+
+// Job Queue
+// Where a job stands in the analysis queue; times are estimated in ms from now
+export interface QueueEstimate {
+  jobId: string;
+  status: string;
+  position: number | null; // 1 for the next job to start, 0 while running, null once finished
+  waitMs: number; // until the job starts
+  etaMs: number; // until the job completes
+  historySamples: number; // completed jobs the estimate learned from
+}
+
 // Progress Tracking
 export type AnalysisStage = 
   | 'initializing'
@@ -74,6 +232,7 @@ export type AnalysisStage =
   | 'analyzing'
   | 'processing'
   | 'completed'
+  | 'cancelled'
   | 'error';
 
 export interface AnalysisProgress {